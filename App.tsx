@@ -1,31 +1,102 @@
 
-import React, { useState, Suspense } from 'react';
+import React, { useState, useRef, useEffect, useSyncExternalStore, Suspense } from 'react';
 import { Canvas } from '@react-three/fiber';
 import { audioService } from './services/audioService';
-import Fluid from './components/Fluid';
+import Fluid, { DyeSource, FluidHandle } from './components/Fluid';
+import FluidCanvas2D from './components/FluidCanvas2D';
+import DebugPanel from './components/DebugPanel';
+import PhysicsPanel from './components/PhysicsPanel';
+import PaletteEditor from './components/PaletteEditor';
+import InstrumentEditor from './components/InstrumentEditor';
+import MappingPanel from './components/MappingPanel';
+import CapturePanel from './components/CapturePanel';
+import RecordPanel, { formatDuration } from './components/RecordPanel';
+import ReplayPanel from './components/ReplayPanel';
+import { VideoRecorder, VideoRecordingOptions, videoRecorder } from './services/videoRecorder';
+import { downloadBlob, timestampForFilename } from './utils/download';
+import { isWebGLAvailable } from './utils/quality';
+import { DEFAULT_TUNING, DEFAULT_VOICE_LIMIT, MAX_VOICE_LIMIT } from './constants';
+import { NOTE_NAMES, SCALES } from './utils/music';
+import { modeRegistry, resolveSimulationConfig } from './services/modeRegistry';
+import { instrumentRegistry } from './services/instrumentRegistry';
+import { inputRecorder, parseSessionRecording } from './services/inputRecorder';
+import { sessionPlayer } from './services/sessionPlayer';
+import { decodeScene, encodeScene } from './services/sceneLink';
 import { 
   Volume2, VolumeX, Volume1,
   Flame, Snowflake, Cloud, Sparkles, 
   Music, Zap, Radio, Orbit, Monitor, Speaker, Play, Pause, Upload, Disc,
-  Waves, Trees
+  Waves, Trees, SlidersHorizontal, ImagePlus, Eraser, Palette, Camera, Video, Repeat, Droplets, Film, Bug, Piano, AudioWaveform, Waypoints
 } from 'lucide-react';
-import { FluidMode, InstrumentType } from './types';
+import { AudioRoute, CaptureOptions, CustomInstrumentDefinition, CustomModeDefinition, DebugViewOptions, FieldProbe, FluidMode, InstrumentType, PressureSolveStats, QualityTier, ScaleId, SceneState, SessionEvent, SessionRecording, SimulationConfig, SolverBackend, TuningConfig, UiTab } from './types';
+
+const MODE_ICONS: Record<string, React.ReactNode> = {
+  flux: <Sparkles size={16} />,
+  ignite: <Flame size={16} />,
+  frost: <Snowflake size={16} />,
+  mist: <Cloud size={16} />,
+};
+
+const AMBIENCE_MODES = [
+  { id: 'river', label: 'River', icon: <Waves size={16} />, url: 'https://assets.mixkit.co/active_storage/sfx/2402/2402-preview.mp3', color: 'from-cyan-600 to-blue-400' },
+  { id: 'forest', label: 'Forest', icon: <Trees size={16} />, url: 'https://assets.mixkit.co/active_storage/sfx/2434/2434-preview.mp3', color: 'from-green-600 to-emerald-800' },
+];
+
+const readSceneFromUrl = () => decodeScene(window.location.hash, AMBIENCE_MODES.map(m => m.id));
+
+type PanelId = 'physics' | 'capture' | 'record' | 'replay' | 'debug';
 
 const App: React.FC = () => {
+  const [initialScene] = useState(readSceneFromUrl);
   const [started, setStarted] = useState(false);
   const [muted, setMuted] = useState(false);
-  const [volume, setVolume] = useState(0.5);
-  const [fluidMode, setFluidMode] = useState<FluidMode>('flux');
-  const [instrument, setInstrument] = useState<InstrumentType>('flux');
-  const [uiTab, setUiTab] = useState<'visual' | 'audio' | 'music' | 'ambience'>('visual');
+  const [volume, setVolume] = useState(initialScene.volume);
+  const [tuning, setTuning] = useState<TuningConfig>(DEFAULT_TUNING);
+  const [voiceLimit, setVoiceLimit] = useState(DEFAULT_VOICE_LIMIT);
+  const [fluidMode, setFluidMode] = useState<FluidMode>(initialScene.mode);
+  const [instrument, setInstrument] = useState<InstrumentType>(initialScene.instrument);
+  const [uiTab, setUiTab] = useState<UiTab>(initialScene.uiTab);
   const [isPlayingMusic, setIsPlayingMusic] = useState(false);
-  const [activeAmbience, setActiveAmbience] = useState<string | null>(null);
+  const [activeAmbience, setActiveAmbience] = useState<string | null>(initialScene.ambience);
+  const [physicsOverrides, setPhysicsOverrides] = useState<Partial<SimulationConfig>>(initialScene.physics);
+  const [audioMapping, setAudioMapping] = useState<AudioRoute[]>(initialScene.audioMapping);
+  const [openPanel, setOpenPanel] = useState<PanelId | null>(null);
+  const [debugView, setDebugView] = useState<DebugViewOptions>({ field: 'none', overlay: true, opacity: 0.6, gain: 1 });
+  const [probe, setProbe] = useState<FieldProbe | null>(null);
+  const [pressureSolve, setPressureSolve] = useState<PressureSolveStats | null>(null);
+  const [recordOptions, setRecordOptions] = useState<VideoRecordingOptions>({ fps: 30, bitrate: 8_000_000 });
+  const [isRecording, setIsRecording] = useState(false);
+  const [recordingElapsed, setRecordingElapsed] = useState(0);
+  const canvasRef = useRef<HTMLCanvasElement | null>(null);
+  const [qualityTier, setQualityTier] = useState<QualityTier | null>(null);
+  const [gpuAvailable, setGpuAvailable] = useState(isWebGLAvailable);
+  const [backend, setBackend] = useState<SolverBackend>(gpuAvailable ? 'gpu' : 'cpu');
+  const [obstacleMask, setObstacleMask] = useState<string | null>(null);
+  const [showPaletteEditor, setShowPaletteEditor] = useState(false);
+  const [showInstrumentEditor, setShowInstrumentEditor] = useState(false);
+  const [showMappingPanel, setShowMappingPanel] = useState(false);
+  const [dyeSource, setDyeSource] = useState<DyeSource | null>(null);
+  const [dyeBlend, setDyeBlend] = useState(0.1);
+  const [sessionRecording, setSessionRecording] = useState<SessionRecording | null>(null);
+  const [isSessionRecording, setIsSessionRecording] = useState(false);
+  const [isReplaying, setIsReplaying] = useState(false);
+  const [replaySpeed, setReplaySpeed] = useState(1);
+  const [replayLoop, setReplayLoop] = useState(false);
+  const [sessionError, setSessionError] = useState<string | null>(null);
+  const fluidRef = useRef<FluidHandle>(null);
+  const registeredModes = useSyncExternalStore(modeRegistry.subscribe, () => modeRegistry.list());
+  const customInstruments = useSyncExternalStore(instrumentRegistry.subscribe, () => instrumentRegistry.listCustom());
 
   const handleStart = () => {
+    audioService.setInstrument(instrument);
     audioService.init();
     audioService.setMasterVolume(volume);
     audioService.resume();
     setStarted(true);
+
+    // Audio can only start after this first gesture, so a linked ambience waits until now
+    const ambience = AMBIENCE_MODES.find(m => m.id === activeAmbience);
+    if (ambience) handleAmbiencePlay(ambience.id, ambience.url);
   };
 
   const toggleMute = (e: React.MouseEvent) => {
@@ -41,9 +112,26 @@ const App: React.FC = () => {
     audioService.setMasterVolume(val);
   };
 
+  const handleTuningChange = (patch: Partial<TuningConfig>) => {
+    const next = { ...tuning, ...patch };
+    setTuning(next);
+    audioService.setTuning(next);
+  };
+
+  const handleVoiceLimitChange = (limit: number) => {
+    setVoiceLimit(limit);
+    audioService.setVoiceLimit(limit);
+  };
+
   const handleInstrumentChange = (inst: InstrumentType) => {
     setInstrument(inst);
     audioService.setInstrument(inst);
+    inputRecorder.record({ type: 'instrument', instrument: inst });
+  };
+
+  const selectFluidMode = (id: FluidMode) => {
+    setFluidMode(id);
+    inputRecorder.record({ type: 'mode', mode: id });
   };
 
   const handleFileUpload = (e: React.ChangeEvent<HTMLInputElement>) => {
@@ -52,6 +140,249 @@ const App: React.FC = () => {
       audioService.playMusic(file);
       setIsPlayingMusic(true);
       setActiveAmbience(null);
+      inputRecorder.record({ type: 'ambience', ambience: null });
+    }
+  };
+
+  const handleMaskUpload = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (file) {
+      if (obstacleMask) URL.revokeObjectURL(obstacleMask);
+      setObstacleMask(URL.createObjectURL(file));
+    }
+    e.target.value = '';
+  };
+
+  const clearObstacles = () => {
+    if (obstacleMask) URL.revokeObjectURL(obstacleMask);
+    setObstacleMask(null);
+    fluidRef.current?.clearObstacles();
+  };
+
+  const handleDyeDrop = (e: React.DragEvent) => {
+    e.preventDefault();
+    const file = e.dataTransfer.files[0];
+    if (!file) return;
+    const kind = file.type.startsWith('video/') ? 'video' : file.type.startsWith('image/') ? 'image' : null;
+    if (!kind) return;
+    if (dyeSource) URL.revokeObjectURL(dyeSource.url);
+    setDyeSource({ url: URL.createObjectURL(file), kind });
+  };
+
+  const resetDye = () => {
+    if (dyeSource) URL.revokeObjectURL(dyeSource.url);
+    setDyeSource(null);
+    fluidRef.current?.clearDye();
+  };
+
+  const handleSaveCustomMode = (definition: CustomModeDefinition) => {
+    modeRegistry.saveCustomMode(definition);
+    selectFluidMode(definition.id);
+    setShowPaletteEditor(false);
+  };
+
+  const handleDeleteCustomMode = (id: string) => {
+    modeRegistry.deleteCustomMode(id);
+    selectFluidMode('flux');
+    setShowPaletteEditor(false);
+  };
+
+  const handleSaveCustomInstrument = (definition: CustomInstrumentDefinition) => {
+    instrumentRegistry.saveCustomInstrument(definition);
+    handleInstrumentChange(definition.id);
+    setShowInstrumentEditor(false);
+  };
+
+  const handleDeleteCustomInstrument = (id: string) => {
+    instrumentRegistry.deleteCustomInstrument(id);
+    handleInstrumentChange('flux');
+    setShowInstrumentEditor(false);
+  };
+
+  // Tick the duration counter while a recording is running
+  useEffect(() => {
+    if (!isRecording) return;
+    const id = setInterval(() => setRecordingElapsed(videoRecorder.elapsed), 250);
+    return () => clearInterval(id);
+  }, [isRecording]);
+
+  const toggleRecording = async () => {
+    if (videoRecorder.isRecording) {
+      setIsRecording(false);
+      try {
+        const blob = await videoRecorder.stop();
+        downloadBlob(blob, `flux-${timestampForFilename()}.webm`);
+      } catch (e) {
+        console.error("Recording failed", e);
+      }
+      return;
+    }
+
+    if (!canvasRef.current) return;
+    try {
+      videoRecorder.start(canvasRef.current, audioService.getRecordingStream(), recordOptions);
+      setRecordingElapsed(0);
+      setIsRecording(true);
+    } catch (e) {
+      console.error("Could not start recording", e);
+    }
+  };
+
+  const toggleSessionRecording = () => {
+    if (inputRecorder.isRecording) {
+      setSessionRecording(inputRecorder.stop());
+      setIsSessionRecording(false);
+      return;
+    }
+    // Recordings always start from a still field so replays line up with what was drawn
+    fluidRef.current?.reset();
+    inputRecorder.start({ mode: fluidMode, instrument, ambience: activeAmbience });
+    setSessionError(null);
+    setIsSessionRecording(true);
+  };
+
+  const applyAmbience = (id: string | null) => {
+    const ambience = AMBIENCE_MODES.find(m => m.id === id);
+    if (ambience) {
+      handleAmbiencePlay(ambience.id, ambience.url);
+    } else {
+      setActiveAmbience(null);
+    }
+  };
+
+  const applySessionEvent = (event: SessionEvent) => {
+    switch (event.type) {
+      case 'pointer':
+        fluidRef.current?.injectPointer(event.pointer);
+        break;
+      case 'mode':
+        // A custom mode missing on this machine falls back to the first registered one
+        setFluidMode(modeRegistry.get(event.mode).id);
+        break;
+      case 'instrument':
+        handleInstrumentChange(event.instrument);
+        break;
+      case 'ambience':
+        applyAmbience(event.ambience);
+        break;
+    }
+  };
+
+  const toggleReplay = () => {
+    if (sessionPlayer.isPlaying) {
+      sessionPlayer.stop();
+      setIsReplaying(false);
+      return;
+    }
+    if (!sessionRecording) return;
+
+    sessionPlayer.speed = replaySpeed;
+    sessionPlayer.loop = replayLoop;
+    sessionPlayer.play(sessionRecording, {
+      onStart: ({ initial }) => {
+        fluidRef.current?.reset();
+        applySessionEvent({ t: 0, type: 'mode', mode: initial.mode });
+        applySessionEvent({ t: 0, type: 'instrument', instrument: initial.instrument });
+        applySessionEvent({ t: 0, type: 'ambience', ambience: initial.ambience });
+      },
+      onEvent: applySessionEvent,
+      onEnd: () => setIsReplaying(false),
+    });
+    setIsReplaying(true);
+  };
+
+  // Stop the player if the app unmounts mid-replay
+  useEffect(() => () => sessionPlayer.stop(), []);
+
+  const handleReplaySpeed = (speed: number) => {
+    setReplaySpeed(speed);
+    sessionPlayer.speed = speed;
+  };
+
+  const handleReplayLoop = (loop: boolean) => {
+    setReplayLoop(loop);
+    sessionPlayer.loop = loop;
+  };
+
+  const saveSession = () => {
+    if (!sessionRecording) return;
+    const blob = new Blob([JSON.stringify(sessionRecording)], { type: 'application/json' });
+    downloadBlob(blob, `flux-session-${timestampForFilename()}.json`);
+  };
+
+  const loadSession = async (file: File) => {
+    try {
+      setSessionRecording(parseSessionRecording(await file.text()));
+      setSessionError(null);
+    } catch (e) {
+      setSessionError(e instanceof Error ? e.message : "Could not load session");
+    }
+  };
+
+  const applyScene = (scene: SceneState) => {
+    setFluidMode(scene.mode);
+    setInstrument(scene.instrument);
+    audioService.setInstrument(scene.instrument);
+    setVolume(scene.volume);
+    audioService.setMasterVolume(scene.volume);
+    setUiTab(scene.uiTab);
+    setPhysicsOverrides(scene.physics);
+    setAudioMapping(scene.audioMapping);
+
+    if (scene.ambience === activeAmbience) return;
+    const ambience = AMBIENCE_MODES.find(m => m.id === scene.ambience);
+    if (ambience && started) {
+      handleAmbiencePlay(ambience.id, ambience.url);
+      return;
+    }
+    if (!ambience && activeAmbience && audioService.isMusicPlaying) {
+      audioService.toggleMusicPause();
+      setIsPlayingMusic(false);
+    }
+    setActiveAmbience(scene.ambience);
+  };
+
+  // Rewrite the initial hash in canonical form without adding a history entry
+  useEffect(() => {
+    window.history.replaceState(null, '', encodeScene(initialScene));
+  }, []);
+
+  // Mirror scene changes into the URL; debounced so dragging a slider leaves one history entry
+  useEffect(() => {
+    const hash = encodeScene({ mode: fluidMode, instrument, volume, uiTab, ambience: activeAmbience, physics: physicsOverrides, audioMapping });
+    if (hash === window.location.hash) return;
+    const id = setTimeout(() => window.history.pushState(null, '', hash), 400);
+    return () => clearTimeout(id);
+  }, [fluidMode, instrument, volume, uiTab, activeAmbience, physicsOverrides, audioMapping]);
+
+  // Back/forward restore the scene that was current at that entry
+  useEffect(() => {
+    const onPopState = () => {
+      const scene = readSceneFromUrl();
+      window.history.replaceState(null, '', encodeScene(scene));
+      applyScene(scene);
+    };
+    window.addEventListener('popstate', onPopState);
+    return () => window.removeEventListener('popstate', onPopState);
+  });
+
+  const togglePanel = (panel: PanelId) => {
+    setOpenPanel(openPanel === panel ? null : panel);
+  };
+
+  // WebGL works but its render targets can't hold the simulation: hand over to the CPU solver for good
+  const handleGpuUnsupported = () => {
+    setGpuAvailable(false);
+    setBackend('cpu');
+  };
+
+  const handleCapture = async (options: CaptureOptions) => {
+    if (!fluidRef.current) return;
+    try {
+      const blob = await fluidRef.current.capture(options);
+      downloadBlob(blob, `flux-${timestampForFilename()}.png`);
+    } catch (e) {
+      console.error("Capture failed", e);
     }
   };
 
@@ -67,47 +398,68 @@ const App: React.FC = () => {
     setIsPlayingMusic(true);
     // Explicitly set to null so Fluid.tsx uses the Music visualization (Wanderer) instead of Ambience (Agents)
     setActiveAmbience(null); 
+    inputRecorder.record({ type: 'ambience', ambience: null });
   };
 
   const handleAmbiencePlay = (id: string, url: string) => {
     audioService.playMusic(url);
     setIsPlayingMusic(true);
     setActiveAmbience(id);
+    inputRecorder.record({ type: 'ambience', ambience: id });
   };
 
-  const visualModes: { id: FluidMode; label: string; icon: React.ReactNode; color: string }[] = [
-    { id: 'flux', label: 'Flux', icon: <Sparkles size={16} />, color: 'from-purple-500 to-pink-500' },
-    { id: 'ignite', label: 'Ignite', icon: <Flame size={16} />, color: 'from-red-500 to-orange-500' },
-    { id: 'frost', label: 'Frost', icon: <Snowflake size={16} />, color: 'from-cyan-400 to-blue-600' },
-    { id: 'mist', label: 'Mist', icon: <Cloud size={16} />, color: 'from-gray-100 to-gray-300' },
-  ];
+  const visualModes: { id: FluidMode; label: string; icon: React.ReactNode; color: string }[] = registeredModes.map((m) => ({
+    id: m.id,
+    label: m.label,
+    icon: MODE_ICONS[m.id] ?? <Palette size={16} />,
+    color: m.gradient,
+  }));
 
   const audioModes: { id: InstrumentType; label: string; icon: React.ReactNode; color: string }[] = [
     { id: 'flux', label: 'Flux', icon: <Music size={16} />, color: 'from-emerald-400 to-teal-500' },
     { id: 'drone', label: 'Drone', icon: <Radio size={16} />, color: 'from-orange-600 to-amber-700' },
     { id: 'spark', label: 'Spark', icon: <Zap size={16} />, color: 'from-yellow-300 to-yellow-500' },
     { id: 'orbit', label: 'Orbit', icon: <Orbit size={16} />, color: 'from-indigo-400 to-purple-600' },
-  ];
-
-  const ambienceModes = [
-    { id: 'river', label: 'River', icon: <Waves size={16} />, url: 'https://assets.mixkit.co/active_storage/sfx/2402/2402-preview.mp3', color: 'from-cyan-600 to-blue-400' },
-    { id: 'forest', label: 'Forest', icon: <Trees size={16} />, url: 'https://assets.mixkit.co/active_storage/sfx/2434/2434-preview.mp3', color: 'from-green-600 to-emerald-800' },
+    ...customInstruments.map((m) => ({ id: m.id, label: m.label, icon: <AudioWaveform size={16} />, color: 'from-white/60 to-white/20' })),
   ];
 
   return (
-    <div className="relative w-full h-full bg-black text-white font-sans overflow-hidden select-none">
+    <div
+      className="relative w-full h-full bg-black text-white font-sans overflow-hidden select-none"
+      onDragOver={(e) => e.preventDefault()}
+      onDrop={handleDyeDrop}
+    >
       
       {/* Background Canvas */}
       <div className="absolute inset-0 z-0">
-        <Canvas dpr={[1, 2]} gl={{ preserveDrawingBuffer: false, alpha: false, stencil: false, depth: false, antialias: false }}>
-          <Suspense fallback={null}>
-            <Fluid 
-              mode={fluidMode} 
-              isMusicActive={isPlayingMusic} 
-              ambienceMode={activeAmbience} 
-            />
-          </Suspense>
-        </Canvas>
+        {backend === 'cpu' ? (
+          <FluidCanvas2D ref={canvasRef} mode={fluidMode} config={physicsOverrides} />
+        ) : (
+          <Canvas 
+            dpr={[1, 2]} 
+            gl={{ preserveDrawingBuffer: false, alpha: false, stencil: false, depth: false, antialias: false }}
+            onCreated={({ gl }) => { canvasRef.current = gl.domElement; }}
+          >
+            <Suspense fallback={null}>
+              <Fluid 
+                ref={fluidRef}
+                mode={fluidMode} 
+                config={physicsOverrides}
+                isMusicActive={isPlayingMusic} 
+                audioMapping={audioMapping}
+                ambienceMode={activeAmbience} 
+                onQualityChange={setQualityTier}
+                onUnsupported={handleGpuUnsupported}
+                obstacleMask={obstacleMask}
+                dyeSource={dyeSource}
+                dyeBlend={dyeBlend}
+                debugView={debugView}
+                onProbe={openPanel === 'debug' ? setProbe : undefined}
+                onPressureSolve={openPanel === 'debug' ? setPressureSolve : undefined}
+              />
+            </Suspense>
+          </Canvas>
+        )}
       </div>
 
       {/* Overlay UI */}
@@ -121,11 +473,96 @@ const App: React.FC = () => {
             <p className="text-[10px] md:text-xs opacity-70 tracking-[0.2em] uppercase mt-1 mix-blend-difference">
               Interactive Fluid Dynamics
             </p>
+            {(qualityTier || backend === 'cpu') && (
+              <p className="text-[9px] opacity-40 tracking-[0.2em] uppercase mt-2 mix-blend-difference">
+                Quality &bull; {backend === 'cpu' ? 'CPU Fallback' : qualityTier?.label}
+              </p>
+            )}
           </div>
           
-          <button onClick={toggleMute} className="p-3 hover:bg-white/10 rounded-full transition-colors backdrop-blur-md border border-white/10 group">
-             {muted ? <VolumeX size={20} className="opacity-70 group-hover:opacity-100" /> : <Volume2 size={20} className="opacity-70 group-hover:opacity-100" />}
-          </button>
+          <div className="flex flex-col items-end gap-3">
+            <div className="flex gap-2">
+              <button 
+                onClick={() => togglePanel('replay')} 
+                className={`p-3 rounded-full transition-colors backdrop-blur-md border border-white/10 group ${openPanel === 'replay' ? 'bg-white/15' : 'hover:bg-white/10'}`}
+              >
+                <Repeat size={20} className={isSessionRecording ? 'text-red-400 animate-pulse' : isReplaying ? 'text-emerald-400' : 'opacity-70 group-hover:opacity-100'} />
+              </button>
+              <button 
+                onClick={() => togglePanel('record')} 
+                className={`flex items-center gap-2 p-3 rounded-full transition-colors backdrop-blur-md border border-white/10 group ${openPanel === 'record' ? 'bg-white/15' : 'hover:bg-white/10'}`}
+              >
+                <Video size={20} className={isRecording ? 'text-red-400 animate-pulse' : 'opacity-70 group-hover:opacity-100'} />
+                {isRecording && <span className="text-xs tabular-nums text-red-400">{formatDuration(recordingElapsed)}</span>}
+              </button>
+              <button 
+                onClick={() => togglePanel('capture')} 
+                className={`p-3 rounded-full transition-colors backdrop-blur-md border border-white/10 group ${openPanel === 'capture' ? 'bg-white/15' : 'hover:bg-white/10'}`}
+              >
+                <Camera size={20} className="opacity-70 group-hover:opacity-100" />
+              </button>
+              <button 
+                onClick={() => togglePanel('physics')} 
+                className={`p-3 rounded-full transition-colors backdrop-blur-md border border-white/10 group ${openPanel === 'physics' ? 'bg-white/15' : 'hover:bg-white/10'}`}
+              >
+                <SlidersHorizontal size={20} className="opacity-70 group-hover:opacity-100" />
+              </button>
+              <button 
+                onClick={() => togglePanel('debug')} 
+                className={`p-3 rounded-full transition-colors backdrop-blur-md border border-white/10 group ${openPanel === 'debug' ? 'bg-white/15' : 'hover:bg-white/10'}`}
+              >
+                <Bug size={20} className={debugView.field !== 'none' ? 'text-amber-300' : 'opacity-70 group-hover:opacity-100'} />
+              </button>
+              <button onClick={toggleMute} className="p-3 hover:bg-white/10 rounded-full transition-colors backdrop-blur-md border border-white/10 group">
+                 {muted ? <VolumeX size={20} className="opacity-70 group-hover:opacity-100" /> : <Volume2 size={20} className="opacity-70 group-hover:opacity-100" />}
+              </button>
+            </div>
+
+            {openPanel === 'capture' && <CapturePanel onCapture={handleCapture} />}
+
+            {openPanel === 'record' && (
+              <RecordPanel
+                options={recordOptions}
+                onOptionsChange={setRecordOptions}
+                isRecording={isRecording}
+                elapsed={recordingElapsed}
+                supported={VideoRecorder.isSupported()}
+                onToggle={toggleRecording}
+              />
+            )}
+
+            {openPanel === 'replay' && (
+              <ReplayPanel
+                recording={sessionRecording}
+                isRecording={isSessionRecording}
+                isReplaying={isReplaying}
+                speed={replaySpeed}
+                loop={replayLoop}
+                error={sessionError}
+                onToggleRecord={toggleSessionRecording}
+                onTogglePlay={toggleReplay}
+                onSpeedChange={handleReplaySpeed}
+                onLoopChange={handleReplayLoop}
+                onSave={saveSession}
+                onLoad={loadSession}
+              />
+            )}
+
+            {openPanel === 'physics' && (
+              <PhysicsPanel
+                config={resolveSimulationConfig(fluidMode, physicsOverrides)}
+                overrides={physicsOverrides}
+                onChange={setPhysicsOverrides}
+                backend={backend}
+                onBackendChange={setBackend}
+                gpuAvailable={gpuAvailable}
+              />
+            )}
+
+            {openPanel === 'debug' && (
+              <DebugPanel options={debugView} onChange={setDebugView} probe={probe} solve={pressureSolve} />
+            )}
+          </div>
         </div>
 
         {/* Footer / Controls */}
@@ -179,6 +616,98 @@ const App: React.FC = () => {
                 </div>
               )}
 
+              {/* Key, Scale, Glide and Voices (Audio Tab) */}
+              {uiTab === 'audio' && (
+                <div className="flex items-center gap-3 px-4 py-2 bg-black/40 border border-white/10 rounded-full backdrop-blur-md shadow-lg animate-in fade-in zoom-in duration-300">
+                  <select
+                    value={tuning.root}
+                    onChange={(e) => handleTuningChange({ root: parseInt(e.target.value, 10) })}
+                    className="bg-transparent text-[10px] font-bold tracking-wider uppercase text-white/70 outline-none cursor-pointer"
+                  >
+                    {NOTE_NAMES.map((name, i) => <option key={name} value={i} className="bg-black">{name}</option>)}
+                  </select>
+                  <select
+                    value={tuning.scale}
+                    onChange={(e) => handleTuningChange({ scale: e.target.value as ScaleId })}
+                    className="bg-transparent text-[10px] font-bold tracking-wider uppercase text-white/70 outline-none cursor-pointer"
+                  >
+                    {(Object.keys(SCALES) as ScaleId[]).map((id) => <option key={id} value={id} className="bg-black">{SCALES[id].label}</option>)}
+                  </select>
+                  <span className="text-[10px] tracking-wide text-white/50">Glide</span>
+                  <input 
+                    type="range" 
+                    min="0" 
+                    max="0.5" 
+                    step="0.01" 
+                    value={tuning.glide}
+                    onChange={(e) => handleTuningChange({ glide: parseFloat(e.target.value) })}
+                    className="w-20 md:w-28 h-1 bg-white/20 rounded-lg appearance-none cursor-pointer [&::-webkit-slider-thumb]:appearance-none [&::-webkit-slider-thumb]:w-3 [&::-webkit-slider-thumb]:h-3 [&::-webkit-slider-thumb]:bg-white [&::-webkit-slider-thumb]:rounded-full hover:[&::-webkit-slider-thumb]:scale-125 transition-all"
+                  />
+                  <span className="text-[10px] tabular-nums text-white/50 w-8">{Math.round(tuning.glide * 1000)}ms</span>
+                  <span className="text-[10px] tracking-wide text-white/50">Voices</span>
+                  <input 
+                    type="range" 
+                    min="1" 
+                    max={MAX_VOICE_LIMIT} 
+                    step="1" 
+                    value={voiceLimit}
+                    onChange={(e) => handleVoiceLimitChange(parseInt(e.target.value, 10))}
+                    className="w-16 md:w-20 h-1 bg-white/20 rounded-lg appearance-none cursor-pointer [&::-webkit-slider-thumb]:appearance-none [&::-webkit-slider-thumb]:w-3 [&::-webkit-slider-thumb]:h-3 [&::-webkit-slider-thumb]:bg-white [&::-webkit-slider-thumb]:rounded-full hover:[&::-webkit-slider-thumb]:scale-125 transition-all"
+                  />
+                  <span className="text-[10px] tabular-nums text-white/50 w-4">{voiceLimit}</span>
+                </div>
+              )}
+
+              {/* Video Dye Blend (Visual Tab) */}
+              {uiTab === 'visual' && dyeSource?.kind === 'video' && (
+                <div className="flex items-center gap-3 px-4 py-2 bg-black/40 border border-white/10 rounded-full backdrop-blur-md shadow-lg animate-in fade-in zoom-in duration-300">
+                  <Film size={14} className="text-white/50" />
+                  <input 
+                    type="range" 
+                    min="0" 
+                    max="0.5" 
+                    step="0.01" 
+                    value={dyeBlend}
+                    onChange={(e) => setDyeBlend(parseFloat(e.target.value))}
+                    className="w-32 md:w-48 h-1 bg-white/20 rounded-lg appearance-none cursor-pointer [&::-webkit-slider-thumb]:appearance-none [&::-webkit-slider-thumb]:w-3 [&::-webkit-slider-thumb]:h-3 [&::-webkit-slider-thumb]:bg-white [&::-webkit-slider-thumb]:rounded-full hover:[&::-webkit-slider-thumb]:scale-125 transition-all"
+                  />
+                  <span className="text-[10px] tabular-nums text-white/50 w-8">{Math.round(dyeBlend * 100)}%</span>
+                </div>
+              )}
+
+              {/* Instrument Editor (Audio Tab) */}
+              {uiTab === 'audio' && showInstrumentEditor && (
+                <InstrumentEditor
+                  key={instrument}
+                  initial={instrumentRegistry.getCustomInstrument(instrument)}
+                  base={instrumentRegistry.get(instrument)}
+                  baseLabel={`${audioModes.find((m) => m.id === instrument)?.label ?? 'Custom'} Copy`}
+                  onSave={handleSaveCustomInstrument}
+                  onDelete={handleDeleteCustomInstrument}
+                  onClose={() => setShowInstrumentEditor(false)}
+                />
+              )}
+
+              {/* Audio Mapping (Music Tab) */}
+              {uiTab === 'music' && showMappingPanel && (
+                <MappingPanel
+                  routes={audioMapping}
+                  onChange={setAudioMapping}
+                  onClose={() => setShowMappingPanel(false)}
+                />
+              )}
+
+              {/* Palette Editor (Visual Tab) */}
+              {uiTab === 'visual' && showPaletteEditor && (
+                <PaletteEditor
+                  key={fluidMode}
+                  initial={modeRegistry.getCustomMode(fluidMode)}
+                  onSave={handleSaveCustomMode}
+                  onDelete={handleDeleteCustomMode}
+                  onClose={() => setShowPaletteEditor(false)}
+                />
+              )}
+
               {/* Controls Dock */}
               <div className="flex items-center gap-2 p-1.5 rounded-full bg-white/5 border border-white/10 backdrop-blur-2xl shadow-2xl overflow-hidden transition-all duration-300">
                 
@@ -188,7 +717,7 @@ const App: React.FC = () => {
                   return (
                     <button
                       key={m.id}
-                      onClick={() => setFluidMode(m.id)}
+                      onClick={() => selectFluidMode(m.id)}
                       className={`
                         relative group flex items-center gap-2 px-4 py-2 rounded-full transition-all duration-300 ease-out
                         ${isActive ? 'bg-white/15 text-white shadow-lg' : 'hover:bg-white/5 text-white/50 hover:text-white'}
@@ -205,6 +734,39 @@ const App: React.FC = () => {
                   );
                 })}
 
+                {/* Obstacle Mask & Palette Editor */}
+                {uiTab === 'visual' && (
+                  <>
+                    <div className="w-px h-4 bg-white/10 mx-1"></div>
+                    <button
+                      onClick={() => setShowPaletteEditor(!showPaletteEditor)}
+                      className={`
+                        relative flex items-center justify-center w-8 h-8 rounded-full transition-all duration-300
+                        ${showPaletteEditor ? 'bg-white text-black' : 'bg-white/10 text-white hover:bg-white/20'}
+                      `}
+                    >
+                      <Palette size={14} />
+                    </button>
+                    <label className="relative group flex items-center gap-2 px-4 py-2 rounded-full hover:bg-white/10 text-white/70 hover:text-white transition-all cursor-pointer">
+                      <ImagePlus size={16} />
+                      <span className="text-xs font-medium hidden md:block">Mask</span>
+                      <input type="file" accept="image/*" onChange={handleMaskUpload} className="hidden" />
+                    </label>
+                    <button
+                      onClick={clearObstacles}
+                      className="relative flex items-center justify-center w-8 h-8 rounded-full bg-white/10 text-white hover:bg-white/20 transition-all duration-300"
+                    >
+                      <Eraser size={14} />
+                    </button>
+                    <button
+                      onClick={resetDye}
+                      className="relative flex items-center justify-center w-8 h-8 rounded-full bg-white/10 text-white hover:bg-white/20 transition-all duration-300"
+                    >
+                      <Droplets size={14} />
+                    </button>
+                  </>
+                )}
+
                 {/* Audio Instrument Modes */}
                 {uiTab === 'audio' && audioModes.map((m) => {
                   const isActive = instrument === m.id;
@@ -228,10 +790,26 @@ const App: React.FC = () => {
                   );
                 })}
 
+                {/* Instrument Editor Toggle */}
+                {uiTab === 'audio' && (
+                  <>
+                    <div className="w-px h-4 bg-white/10 mx-1"></div>
+                    <button
+                      onClick={() => setShowInstrumentEditor(!showInstrumentEditor)}
+                      className={`
+                        relative flex items-center justify-center w-8 h-8 rounded-full transition-all duration-300
+                        ${showInstrumentEditor ? 'bg-white text-black' : 'bg-white/10 text-white hover:bg-white/20'}
+                      `}
+                    >
+                      <Piano size={14} />
+                    </button>
+                  </>
+                )}
+
                 {/* Ambience Modes */}
                 {uiTab === 'ambience' && (
                   <>
-                  {ambienceModes.map((m) => {
+                  {AMBIENCE_MODES.map((m) => {
                     const isActive = activeAmbience === m.id;
                     return (
                       <button
@@ -301,6 +879,16 @@ const App: React.FC = () => {
                     >
                       {isPlayingMusic ? <Pause size={14} fill="currentColor" /> : <Play size={14} fill="currentColor" className="ml-0.5" />}
                     </button>
+
+                    <button
+                      onClick={() => setShowMappingPanel(!showMappingPanel)}
+                      className={`
+                        relative flex items-center justify-center w-8 h-8 rounded-full transition-all duration-300
+                        ${showMappingPanel ? 'bg-white text-black' : 'bg-white/10 text-white hover:bg-white/20'}
+                      `}
+                    >
+                      <Waypoints size={14} />
+                    </button>
                   </div>
                 )}
               </div>
@@ -308,7 +896,7 @@ const App: React.FC = () => {
           )}
 
            <div className="hidden md:block text-[10px] tracking-widest opacity-30 mix-blend-difference mt-2">
-             DRAG TO EMIT &bull; CUSTOMIZE EXPERIENCE
+             DRAG TO EMIT &bull; SHIFT-DRAG TO DRAW WALLS &bull; DROP AN IMAGE OR VIDEO TO PAINT
            </div>
         </div>
       </div>
@@ -0,0 +1,66 @@
+import React, { useState } from 'react';
+import { Camera } from 'lucide-react';
+import { CaptureOptions } from '../types';
+
+const RESOLUTIONS: { label: string; longEdge: number | null }[] = [
+  { label: 'Window', longEdge: null },
+  { label: '1080p', longEdge: 1920 },
+  { label: '1440p', longEdge: 2560 },
+  { label: '4K', longEdge: 3840 },
+];
+
+interface CapturePanelProps {
+  onCapture: (options: CaptureOptions) => Promise<void>;
+}
+
+const CapturePanel = ({ onCapture }: CapturePanelProps) => {
+  const [options, setOptions] = useState<CaptureOptions>({ longEdge: null, transparent: false, vignette: true });
+  const [busy, setBusy] = useState(false);
+
+  const handleCapture = async () => {
+    setBusy(true);
+    try {
+      await onCapture(options);
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const chipClass = (active: boolean) =>
+    `flex-1 py-1.5 rounded-full text-[10px] font-bold tracking-wider uppercase transition-all ${active ? 'bg-white text-black' : 'bg-white/10 text-white/50 hover:text-white'}`;
+
+  return (
+    <div className="w-64 p-4 bg-black/40 border border-white/10 rounded-2xl backdrop-blur-md shadow-lg animate-in fade-in zoom-in duration-300">
+      <span className="block mb-3 text-[10px] font-bold tracking-wider uppercase text-white/70">Capture</span>
+
+      <div className="flex flex-col gap-2">
+        <div className="flex gap-1">
+          {RESOLUTIONS.map((r) => (
+            <button key={r.label} onClick={() => setOptions({ ...options, longEdge: r.longEdge })} className={chipClass(options.longEdge === r.longEdge)}>
+              {r.label}
+            </button>
+          ))}
+        </div>
+
+        <div className="flex gap-1">
+          <button onClick={() => setOptions({ ...options, transparent: !options.transparent })} className={chipClass(options.transparent)}>
+            Transparent
+          </button>
+          <button onClick={() => setOptions({ ...options, vignette: !options.vignette })} className={chipClass(options.vignette)}>
+            Vignette
+          </button>
+        </div>
+
+        <button
+          onClick={handleCapture}
+          disabled={busy}
+          className="flex items-center justify-center gap-2 mt-1 py-1.5 rounded-full bg-white text-black text-[10px] font-bold tracking-wider uppercase disabled:opacity-50"
+        >
+          <Camera size={12} /> {busy ? 'Saving...' : 'Save PNG'}
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default CapturePanel;
@@ -0,0 +1,111 @@
+import React from 'react';
+import { DebugField, DebugViewOptions, FieldProbe, PressureSolveStats } from '../types';
+
+const FIELDS: { id: DebugField; label: string }[] = [
+  { id: 'none', label: 'Off' },
+  { id: 'velocity', label: 'Velocity' },
+  { id: 'arrows', label: 'Arrows' },
+  { id: 'pressure', label: 'Pressure' },
+  { id: 'divergence', label: 'Diverg.' },
+  { id: 'curl', label: 'Curl' },
+];
+
+const sliderClass = "w-full h-1 bg-white/20 rounded-lg appearance-none cursor-pointer [&::-webkit-slider-thumb]:appearance-none [&::-webkit-slider-thumb]:w-3 [&::-webkit-slider-thumb]:h-3 [&::-webkit-slider-thumb]:bg-white [&::-webkit-slider-thumb]:rounded-full hover:[&::-webkit-slider-thumb]:scale-125 transition-all";
+
+const formatNumber = (value: number) => (Math.abs(value) >= 100 ? value.toFixed(0) : value.toFixed(2));
+
+interface DebugPanelProps {
+  options: DebugViewOptions;
+  onChange: (options: DebugViewOptions) => void;
+  probe: FieldProbe | null;
+  solve: PressureSolveStats | null;
+}
+
+const DebugPanel = ({ options, onChange, probe, solve }: DebugPanelProps) => {
+  const chipClass = (active: boolean) =>
+    `py-1.5 rounded-full text-[10px] font-bold tracking-wider uppercase transition-all ${active ? 'bg-white text-black' : 'bg-white/10 text-white/50 hover:text-white'}`;
+
+  const rows: [string, string][] = probe ? [
+    ['Velocity', `${formatNumber(probe.velocity[0])}, ${formatNumber(probe.velocity[1])}`],
+    ['Pressure', formatNumber(probe.pressure)],
+    ['Divergence', formatNumber(probe.divergence)],
+    ['Curl', formatNumber(probe.curl)],
+    ['Dye', probe.dye.map(formatNumber).join(' ')],
+  ] : [];
+
+  return (
+    <div className="w-64 p-4 bg-black/40 border border-white/10 rounded-2xl backdrop-blur-md shadow-lg animate-in fade-in zoom-in duration-300">
+      <div className="flex items-center justify-between mb-3">
+        <span className="text-[10px] font-bold tracking-wider uppercase text-white/70">Debug</span>
+        {probe && (
+          <span className="text-[10px] tabular-nums text-white/50">
+            {probe.x.toFixed(2)}, {probe.y.toFixed(2)}
+          </span>
+        )}
+      </div>
+
+      <div className="flex flex-col gap-3">
+        <div className="grid grid-cols-3 gap-1">
+          {FIELDS.map((f) => (
+            <button key={f.id} onClick={() => onChange({ ...options, field: f.id })} className={chipClass(options.field === f.id)}>
+              {f.label}
+            </button>
+          ))}
+        </div>
+
+        <label className="flex flex-col gap-1">
+          <div className="flex justify-between text-[10px] tracking-wide text-white/50">
+            <span>Gain</span>
+            <span className="tabular-nums">{options.gain.toFixed(2)}x</span>
+          </div>
+          {/* Logarithmic: 0.1x to 10x */}
+          <input
+            type="range" min={-1} max={1} step={0.05}
+            value={Math.log10(options.gain)}
+            onChange={(e) => onChange({ ...options, gain: Math.pow(10, parseFloat(e.target.value)) })}
+            className={sliderClass}
+          />
+        </label>
+
+        <div className="flex items-center gap-2">
+          <button onClick={() => onChange({ ...options, overlay: !options.overlay })} className={`${chipClass(options.overlay)} px-3`}>
+            Overlay
+          </button>
+          <input
+            type="range" min={0} max={1} step={0.05}
+            value={options.opacity}
+            disabled={!options.overlay}
+            onChange={(e) => onChange({ ...options, opacity: parseFloat(e.target.value) })}
+            className={`${sliderClass} disabled:opacity-30`}
+          />
+        </div>
+
+        <div className="flex flex-col gap-1 pt-2 border-t border-white/10 text-[10px] tracking-wide">
+          {probe ? rows.map(([label, value]) => (
+            <div key={label} className="flex justify-between">
+              <span className="text-white/50">{label}</span>
+              <span className="tabular-nums text-white">{value}</span>
+            </div>
+          )) : (
+            <span className="text-white/50">Move the cursor over the fluid to probe it.</span>
+          )}
+        </div>
+
+        {solve && (
+          <div className="flex flex-col gap-1 pt-2 border-t border-white/10 text-[10px] tracking-wide">
+            <div className="flex justify-between">
+              <span className="text-white/50">{solve.solver === 'multigrid' ? 'V-Cycles' : 'Jacobi Iterations'}</span>
+              <span className="tabular-nums text-white">{solve.iterations}</span>
+            </div>
+            <div className="flex justify-between">
+              <span className="text-white/50">Residual</span>
+              <span className="tabular-nums text-white">{solve.residual === null ? '-' : solve.residual.toExponential(2)}</span>
+            </div>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default DebugPanel;
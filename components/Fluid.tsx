@@ -1,39 +1,188 @@
-import React, { useEffect, useRef, useMemo } from 'react';
+import React, { forwardRef, useEffect, useImperativeHandle, useRef, useMemo, useState, useSyncExternalStore } from 'react';
 import { useFrame, useThree } from '@react-three/fiber';
 import * as THREE from 'three';
 import {
   BASE_VERTEX_SHADER,
   ADVECTION_SHADER,
+  ADVECTION_CORRECTION_SHADER,
   SPLAT_SHADER,
+  CLEAR_SHADER,
+  CURL_SHADER,
+  VORTICITY_SHADER,
   DIVERGENCE_SHADER,
   PRESSURE_SHADER,
+  RESIDUAL_SHADER,
+  PROLONGATE_SHADER,
   GRADIENT_SUBTRACT_SHADER,
-  DISPLAY_SHADER
+  BUOYANCY_SHADER,
+  OBSTACLE_BRUSH_SHADER,
+  OBSTACLE_MASK_SHADER,
+  DYE_SEED_SHADER,
+  PROBE_SHADER,
+  PARTICLE_UPDATE_SHADER,
+  PARTICLE_VERTEX_SHADER,
+  PARTICLE_FRAGMENT_SHADER,
+  BLOOM_PREFILTER_SHADER,
+  BLOOM_DOWNSAMPLE_SHADER,
+  BLOOM_UPSAMPLE_SHADER,
+  SUNRAYS_MASK_SHADER,
+  SUNRAYS_SHADER,
+  DISPLAY_SHADER,
+  OBSTACLE_RESOLUTION,
+  MAX_CAPTURE_SIZE,
+  BLOOM_RESOLUTION,
+  SUNRAYS_RESOLUTION,
+  QUALITY_TIERS,
+  BOUNDARY_MODES
 } from '../constants';
 import { audioService } from '../services/audioService';
-import { FluidMode } from '../types';
+import { inputRecorder } from '../services/inputRecorder';
+import { modeRegistry, resolveParticles, resolvePostProcessing, resolveSimulationConfig } from '../services/modeRegistry';
+import { applyQualityTier, aspectResolution, probeGpuCapabilities, QualityGovernor } from '../utils/quality';
+import { generateBlueNoise } from '../utils/blueNoise';
+import { AudioSignalTracker, DEFAULT_AUDIO_MAPPING, NEUTRAL_MODULATION, readSignal, resolveModulation, shiftHue } from '../utils/audioMapping';
+import { AdvectionScheme, AudioRoute, CaptureOptions, DebugField, DebugViewOptions, FieldProbe, FluidMode, PointerData, PostProcessingConfig, PressureSolveStats, QualityTier, SimulationConfig } from '../types';
+
+interface TrackedPointer extends PointerData {
+  seed: number; // Stable per-pointer random so each finger keeps its own shade
+  brush: 'none' | 'draw' | 'erase'; // Shift-drag paints obstacles, Shift+Alt-drag erases them
+}
+
+// Obstacle brush radius in units of screen height
+const OBSTACLE_BRUSH_RADIUS = 0.025;
+
+// Field magnitude shown at full brightness by the debug view at gain 1
+const DEBUG_FIELD_SCALES: Record<Exclude<DebugField, 'none'>, number> = {
+  velocity: 100,
+  arrows: 100,
+  pressure: 20,
+  divergence: 5,
+  curl: 10,
+};
+
+// Seconds between probe readbacks; each one stalls the GPU pipeline briefly
+const PROBE_INTERVAL = 0.1;
+
+// Velocity magnitude at which speed-coloured particles reach full heat
+const PARTICLE_SPEED_SCALE = 200;
+
+// Music emitters: force at a full-strength signal, and the signal below which they stay quiet
+const EMITTER_FORCE = 60;
+const EMITTER_GATE = 0.05;
+
+// Multigrid: damped Jacobi sweeps before and after each coarse-grid correction, plain sweeps on the coarsest grid
+const MULTIGRID_SMOOTHING = 2;
+const MULTIGRID_WEIGHT = 0.8;
+const MULTIGRID_COARSE_ITERATIONS = 20;
+// Grids stop halving once their shorter side is this small
+const MULTIGRID_MIN_SIZE = 8;
+
+// With a tolerance set, Jacobi checks the residual every this many iterations; each check is a GPU readback
+const PRESSURE_CHECK_INTERVAL = 10;
+
+// Seconds between pressure solve reports
+const SOLVER_REPORT_INTERVAL = 0.25;
+
+// One grid of the multigrid hierarchy: the solution pair, the right-hand side and scratch for the residual
+interface MultigridLevel {
+  pressure: THREE.WebGLRenderTarget[];
+  rhs: THREE.WebGLRenderTarget;
+  residual: THREE.WebGLRenderTarget;
+}
+
+// The temperature field only runs while something depends on it
+const hasBuoyancy = (sim: SimulationConfig) => sim.buoyancy > 0 || sim.smokeWeight > 0;
+
+// Created once on first render and disposed on unmount; `useRef(new ...)` would rebuild its argument on every render
+const useDisposable = <T extends { dispose: () => void }>(create: () => T) => {
+  const ref = useRef<T | null>(null);
+  if (!ref.current) ref.current = create();
+  useEffect(() => () => ref.current!.dispose(), []);
+  return ref as React.MutableRefObject<T>;
+};
+
+export type ObstacleMaskSource = string | HTMLImageElement | HTMLCanvasElement | ImageBitmap;
+
+// Dropped media for the dye field: images are written once, videos stream in every frame
+export interface DyeSource {
+  url: string;
+  kind: 'image' | 'video';
+}
+
+export interface FluidHandle {
+  clearObstacles: () => void;
+  // Clear the dye back to black, leaving the flow running
+  clearDye: () => void;
+  capture: (options: CaptureOptions) => Promise<Blob>;
+  // Queue a recorded pointer sample (normalized coordinates) to splat on the next frame
+  injectPointer: (sample: PointerData) => void;
+  // Clear velocity, pressure and dye back to a still, black field
+  reset: () => void;
+}
 
 interface FluidProps {
   mode: FluidMode;
+  config?: Partial<SimulationConfig>;
   isMusicActive?: boolean;
   ambienceMode?: string | null;
   onInteract?: (speed: number) => void;
+  targetFps?: number;
+  onQualityChange?: (tier: QualityTier) => void;
+  onUnsupported?: () => void; // The GPU can't render to float or half-float targets, so the simulation can't run here
+  obstacleMask?: ObstacleMaskSource | null;
+  dyeSource?: DyeSource | null;
+  dyeBlend?: number; // Per-frame blend of video frames into the dye, 0..1
+  debugView?: DebugViewOptions;
+  onProbe?: (probe: FieldProbe) => void; // Field values under the cursor, polled while set
+  onPressureSolve?: (stats: PressureSolveStats) => void; // Solver stats with a measured residual, polled while set
+  audioMapping?: AudioRoute[]; // Music mode: which analysis signals drive which visuals
 }
 
-const Fluid = ({ mode, isMusicActive = false, ambienceMode, onInteract }: FluidProps) => {
+const Fluid = forwardRef<FluidHandle, FluidProps>(({ mode, config: configOverrides, isMusicActive = false, ambienceMode, onInteract, targetFps = 60, onQualityChange, onUnsupported, obstacleMask, dyeSource, dyeBlend = 0.1, debugView, onProbe, onPressureSolve, audioMapping = DEFAULT_AUDIO_MAPPING }, ref) => {
   const { gl, size } = useThree();
   
   // Keep track of mode inside useFrame without stale closures
   const modeRef = useRef(mode);
   useEffect(() => { modeRef.current = mode; }, [mode]);
 
-  // Simulation resolution
-  const simRes = 256; // Physics resolution
-  const dyeRes = 1024; // Visual resolution (high quality)
+  // Probe once which render target formats this GPU can actually use
+  const capabilities = useMemo(() => probeGpuCapabilities(gl), [gl]);
+  useEffect(() => {
+    if (capabilities.canRenderFloat) return;
+    console.warn("Neither float nor half-float render targets are supported, the GPU solver can't run on this device");
+    onUnsupported?.();
+  }, [capabilities]);
+
+  // Adaptive quality: the governor scales resolution and iterations to hold the target FPS
+  const [tierIndex, setTierIndex] = useState(capabilities.initialTier);
+  const governor = useRef<QualityGovernor | null>(null);
+  if (!governor.current) {
+    governor.current = new QualityGovernor(capabilities.initialTier, capabilities.canRenderFloat ? QUALITY_TIERS.length - 1 : 0);
+  }
+  useEffect(() => { governor.current!.targetFps = targetFps; }, [targetFps]);
+  useEffect(() => { onQualityChange?.(QUALITY_TIERS[tierIndex]); }, [tierIndex]);
+
+  // Re-resolve when custom modes are edited at runtime
+  const registeredModes = useSyncExternalStore(modeRegistry.subscribe, () => modeRegistry.list());
+
+  // Mode defaults merged with caller overrides, then scaled by the current quality tier
+  const config = useMemo(
+    () => applyQualityTier(resolveSimulationConfig(mode, configOverrides), QUALITY_TIERS[tierIndex]),
+    [mode, configOverrides, tierIndex, registeredModes]
+  );
+  const configRef = useRef(config);
+  useEffect(() => { configRef.current = config; }, [config]);
+
+  const { simResolution: simRes, dyeResolution: dyeRes } = config;
+
+  // Fields keep square texels: the resolution sets the shorter side and the longer one follows the canvas
+  const aspect = size.width / Math.max(1, size.height);
+  const simSize = aspectResolution(simRes, aspect);
+  const dyeSize = aspectResolution(dyeRes, aspect);
 
   // -- Render Targets (Ping-Pong buffers) --
-  const createTarget = (res: number, type: THREE.TextureDataType) => 
-    new THREE.WebGLRenderTarget(res, res, {
+  const createTarget = (width: number, height: number, type: THREE.TextureDataType = dataType) =>
+    new THREE.WebGLRenderTarget(width, height, {
       type: type,
       format: THREE.RGBAFormat,
       minFilter: THREE.LinearFilter,
@@ -44,18 +193,142 @@ const Fluid = ({ mode, isMusicActive = false, ambienceMode, onInteract }: FluidP
       stencilBuffer: false,
     });
 
-  const dataType = THREE.FloatType; 
+  const dataType = capabilities.textureType;
+
+  const velocity = useRef<THREE.WebGLRenderTarget[]>([]);
+  const density = useRef<THREE.WebGLRenderTarget[]>([]);
+  const pressure = useRef<THREE.WebGLRenderTarget[]>([]);
+  const temperature = useRef<THREE.WebGLRenderTarget[]>([]);
+  const divergence = useRef<THREE.WebGLRenderTarget | null>(null);
+  const curlTarget = useRef<THREE.WebGLRenderTarget | null>(null);
+  // Forward and backward intermediates for MacCormack/BFECC, allocated the first time a field needs them
+  const simScratch = useRef<THREE.WebGLRenderTarget[]>([]);
+  const dyeScratch = useRef<THREE.WebGLRenderTarget[]>([]);
+  // Residual target on the sim grid plus the coarser grids below it, allocated the first time they're needed
+  const multigrid = useRef<{ residual: THREE.WebGLRenderTarget; coarse: MultigridLevel[] } | null>(null);
+  const disposeMultigrid = () => {
+    if (!multigrid.current) return;
+    const { residual, coarse } = multigrid.current;
+    [residual, ...coarse.flatMap(level => [...level.pressure, level.rhs, level.residual])].forEach(t => t.dispose());
+    multigrid.current = null;
+  };
+  const obstacles = useMemo(() => [
+    createTarget(OBSTACLE_RESOLUTION, OBSTACLE_RESOLUTION, THREE.UnsignedByteType),
+    createTarget(OBSTACLE_RESOLUTION, OBSTACLE_RESOLUTION, THREE.UnsignedByteType),
+  ], []);
+  useEffect(() => () => obstacles.forEach(t => t.dispose()), [obstacles]);
+
+  // Post-processing buffers: a halving chain for bloom (down and back up) plus two for sunrays
+  // They hold nothing between frames, so a resize simply rebuilds them
+  const postTargets = useMemo(() => {
+    const levels: { width: number; height: number }[] = [];
+    const bloom = aspectResolution(BLOOM_RESOLUTION, aspect);
+    for (let { width, height } = bloom; Math.min(width, height) >= 2; width >>= 1, height >>= 1) levels.push({ width, height });
+    const sunrays = aspectResolution(SUNRAYS_RESOLUTION, aspect);
+    return {
+      bloomDown: levels.map(({ width, height }) => createTarget(width, height)),
+      bloomUp: levels.map(({ width, height }) => createTarget(width, height)),
+      sunraysMask: createTarget(sunrays.width, sunrays.height),
+      sunrays: createTarget(sunrays.width, sunrays.height),
+    };
+  }, [dataType, aspect]);
+  useEffect(() => () => {
+    const { bloomDown, bloomUp, sunraysMask, sunrays } = postTargets;
+    [...bloomDown, ...bloomUp, sunraysMask, sunrays].forEach(t => t.dispose());
+  }, [postTargets]);
+
+  const ditherTexture = useMemo(() => {
+    const size = 64;
+    const noise = generateBlueNoise(size);
+    const rgba = new Uint8Array(size * size * 4);
+    noise.forEach((v, i) => rgba.fill(v, i * 4, i * 4 + 4));
+    const texture = new THREE.DataTexture(rgba, size, size, THREE.RGBAFormat, THREE.UnsignedByteType);
+    texture.wrapS = THREE.RepeatWrapping;
+    texture.wrapT = THREE.RepeatWrapping;
+    texture.minFilter = THREE.NearestFilter;
+    texture.magFilter = THREE.NearestFilter;
+    texture.needsUpdate = true;
+    return texture;
+  }, []);
+  useEffect(() => () => ditherTexture.dispose(), [ditherTexture]);
+
+  // Two texels are enough to carry every probed value (see PROBE_SHADER)
+  const probeTarget = useMemo(() => new THREE.WebGLRenderTarget(2, 1, {
+    type: dataType,
+    format: THREE.RGBAFormat,
+    minFilter: THREE.NearestFilter,
+    magFilter: THREE.NearestFilter,
+    depthBuffer: false,
+    stencilBuffer: false,
+  }), [dataType]);
+  useEffect(() => () => probeTarget.dispose(), [probeTarget]);
+  const probeClock = useRef(0);
+  const solverClock = useRef(0);
+
+  // Tracer particles: one texel of a square state texture per particle (see PARTICLE_UPDATE_SHADER).
+  // Half floats are too coarse to hold positions that drift a fraction of a pixel per frame, so they need full floats.
+  const particlesSupported = dataType === THREE.FloatType;
+  useEffect(() => {
+    if (!particlesSupported) console.warn("Float render targets unsupported, tracer particles disabled");
+  }, [particlesSupported]);
+  const particleSettings = useMemo(() => resolveParticles(mode), [mode, registeredModes]);
+  const particleSide = Math.max(1, Math.ceil(Math.sqrt(particleSettings.count)));
+  const particleState = useMemo(() => !particlesSupported ? [] : [0, 1].map(() =>
+    new THREE.WebGLRenderTarget(particleSide, particleSide, {
+      type: THREE.FloatType,
+      format: THREE.RGBAFormat,
+      minFilter: THREE.NearestFilter,
+      magFilter: THREE.NearestFilter,
+      depthBuffer: false,
+      stencilBuffer: false,
+    })
+  ), [particleSide, particlesSupported]);
+  useEffect(() => () => particleState.forEach(t => t.dispose()), [particleState]);
+
+  // Swap a ping-pong pair for one of a new size, carrying the current state across with a bilinear copy
+  const resizePair = (pair: THREE.WebGLRenderTarget[], width: number, height: number) => {
+    if (pair.length && pair[0].width === width && pair[0].height === height) return pair;
+    const next = [createTarget(width, height), createTarget(width, height)];
+    if (pair.length) {
+      clearMat.current.uniforms.uTexture.value = pair[0].texture;
+      clearMat.current.uniforms.value.value = 1.0;
+      renderPass(next[0], clearMat.current);
+      pair.forEach(t => t.dispose());
+    }
+    return next;
+  };
+
+  // Resample the physics buffers whenever the window or the simulation resolution changes
+  useEffect(() => {
+    const { width, height } = simSize;
+    velocity.current = resizePair(velocity.current, width, height);
+    pressure.current = resizePair(pressure.current, width, height);
+    temperature.current = resizePair(temperature.current, width, height);
+    // Recomputed from velocity every frame, so no state to carry over
+    divergence.current?.dispose();
+    curlTarget.current?.dispose();
+    divergence.current = createTarget(width, height);
+    curlTarget.current = createTarget(width, height);
+  }, [simSize.width, simSize.height]);
+
+  // The dye buffers are resized separately so changing visual quality keeps the flow intact
+  useEffect(() => {
+    density.current = resizePair(density.current, dyeSize.width, dyeSize.height);
+  }, [dyeSize.width, dyeSize.height]);
 
-  const velocity = useRef([createTarget(simRes, dataType), createTarget(simRes, dataType)]);
-  const density = useRef([createTarget(dyeRes, dataType), createTarget(dyeRes, dataType)]);
-  const pressure = useRef([createTarget(simRes, dataType), createTarget(simRes, dataType)]);
-  const divergence = useRef(createTarget(simRes, dataType));
+  useEffect(() => () => {
+    [...velocity.current, ...pressure.current, ...temperature.current, ...density.current, ...simScratch.current, ...dyeScratch.current, divergence.current, curlTarget.current]
+      .forEach(t => t?.dispose());
+    disposeMultigrid();
+  }, []);
   
   // -- Materials (Shader Programs) --
-  const advectionMat = useRef(new THREE.ShaderMaterial({
+  const advectionMat = useDisposable(() => new THREE.ShaderMaterial({
     uniforms: {
+      boundary: { value: 1 },
       uVelocity: { value: null },
       uSource: { value: null },
+      uObstacles: { value: null },
       texelSize: { value: new THREE.Vector2() },
       dt: { value: 0.016 },
       dissipation: { value: 1.0 },
@@ -64,8 +337,35 @@ const Fluid = ({ mode, isMusicActive = false, ambienceMode, onInteract }: FluidP
     fragmentShader: ADVECTION_SHADER,
   }));
 
-  const splatMat = useRef(new THREE.ShaderMaterial({
+  const advectionCorrectionMat = useDisposable(() => new THREE.ShaderMaterial({
+    uniforms: {
+      boundary: { value: 1 },
+      uVelocity: { value: null },
+      uSource: { value: null },
+      uForward: { value: null },
+      uBackward: { value: null },
+      uObstacles: { value: null },
+      texelSize: { value: new THREE.Vector2() },
+      dt: { value: 0.016 },
+      dissipation: { value: 1.0 },
+      bfecc: { value: false },
+    },
+    vertexShader: BASE_VERTEX_SHADER,
+    fragmentShader: ADVECTION_CORRECTION_SHADER,
+  }));
+
+  const clearMat = useDisposable(() => new THREE.ShaderMaterial({
     uniforms: {
+      uTexture: { value: null },
+      value: { value: 1.0 },
+    },
+    vertexShader: BASE_VERTEX_SHADER,
+    fragmentShader: CLEAR_SHADER,
+  }));
+
+  const splatMat = useDisposable(() => new THREE.ShaderMaterial({
+    uniforms: {
+      boundary: { value: 1 },
       uTarget: { value: null },
       aspectRatio: { value: 1 },
       color: { value: new THREE.Vector3() },
@@ -76,55 +376,304 @@ const Fluid = ({ mode, isMusicActive = false, ambienceMode, onInteract }: FluidP
     fragmentShader: SPLAT_SHADER,
   }));
 
-  const divergenceMat = useRef(new THREE.ShaderMaterial({
+  const curlMat = useDisposable(() => new THREE.ShaderMaterial({
     uniforms: {
+      boundary: { value: 1 },
       uVelocity: { value: null },
       texelSize: { value: new THREE.Vector2() },
     },
     vertexShader: BASE_VERTEX_SHADER,
+    fragmentShader: CURL_SHADER,
+  }));
+
+  const vorticityMat = useDisposable(() => new THREE.ShaderMaterial({
+    uniforms: {
+      boundary: { value: 1 },
+      uVelocity: { value: null },
+      uCurl: { value: null },
+      texelSize: { value: new THREE.Vector2() },
+      curl: { value: 0 },
+      dt: { value: 0.016 },
+    },
+    vertexShader: BASE_VERTEX_SHADER,
+    fragmentShader: VORTICITY_SHADER,
+  }));
+
+  const divergenceMat = useDisposable(() => new THREE.ShaderMaterial({
+    uniforms: {
+      boundary: { value: 1 },
+      uVelocity: { value: null },
+      uObstacles: { value: null },
+      texelSize: { value: new THREE.Vector2() },
+    },
+    vertexShader: BASE_VERTEX_SHADER,
     fragmentShader: DIVERGENCE_SHADER,
   }));
 
-  const pressureMat = useRef(new THREE.ShaderMaterial({
+  const pressureMat = useDisposable(() => new THREE.ShaderMaterial({
     uniforms: {
+      boundary: { value: 1 },
       uPressure: { value: null },
       uDivergence: { value: null },
+      uObstacles: { value: null },
       texelSize: { value: new THREE.Vector2() },
+      weight: { value: 1.0 },
     },
     vertexShader: BASE_VERTEX_SHADER,
     fragmentShader: PRESSURE_SHADER,
   }));
 
-  const gradientSubtractMat = useRef(new THREE.ShaderMaterial({
+  const residualMat = useDisposable(() => new THREE.ShaderMaterial({
     uniforms: {
+      boundary: { value: 1 },
+      uPressure: { value: null },
+      uDivergence: { value: null },
+      uObstacles: { value: null },
+      texelSize: { value: new THREE.Vector2() },
+    },
+    vertexShader: BASE_VERTEX_SHADER,
+    fragmentShader: RESIDUAL_SHADER,
+  }));
+
+  const prolongateMat = useDisposable(() => new THREE.ShaderMaterial({
+    uniforms: {
+      uPressure: { value: null },
+      uCorrection: { value: null },
+    },
+    vertexShader: BASE_VERTEX_SHADER,
+    fragmentShader: PROLONGATE_SHADER,
+  }));
+
+  const buoyancyMat = useDisposable(() => new THREE.ShaderMaterial({
+    uniforms: {
+      uVelocity: { value: null },
+      uTemperature: { value: null },
+      uDensity: { value: null },
+      buoyancy: { value: 0 },
+      weight: { value: 0 },
+      ambient: { value: 0 },
+      direction: { value: new THREE.Vector2(0, 1) },
+      dt: { value: 0.016 },
+    },
+    vertexShader: BASE_VERTEX_SHADER,
+    fragmentShader: BUOYANCY_SHADER,
+  }));
+
+  const gradientSubtractMat = useDisposable(() => new THREE.ShaderMaterial({
+    uniforms: {
+      boundary: { value: 1 },
       uPressure: { value: null },
       uVelocity: { value: null },
+      uObstacles: { value: null },
       texelSize: { value: new THREE.Vector2() },
     },
     vertexShader: BASE_VERTEX_SHADER,
     fragmentShader: GRADIENT_SUBTRACT_SHADER,
   }));
 
-  const displayMat = useRef(new THREE.ShaderMaterial({
+  const obstacleBrushMat = useDisposable(() => new THREE.ShaderMaterial({
+    uniforms: {
+      uTarget: { value: null },
+      aspectRatio: { value: 1 },
+      point: { value: new THREE.Vector2() },
+      radius: { value: OBSTACLE_BRUSH_RADIUS },
+      value: { value: 1 },
+    },
+    vertexShader: BASE_VERTEX_SHADER,
+    fragmentShader: OBSTACLE_BRUSH_SHADER,
+  }));
+
+  const obstacleMaskMat = useDisposable(() => new THREE.ShaderMaterial({
+    uniforms: {
+      uMask: { value: null },
+      aspectRatio: { value: 1 },
+      maskAspect: { value: 1 },
+    },
+    vertexShader: BASE_VERTEX_SHADER,
+    fragmentShader: OBSTACLE_MASK_SHADER,
+  }));
+
+  const dyeSeedMat = useDisposable(() => new THREE.ShaderMaterial({
+    uniforms: {
+      uTarget: { value: null },
+      uImage: { value: null },
+      aspectRatio: { value: 1 },
+      imageAspect: { value: 1 },
+      blend: { value: 1 },
+    },
+    vertexShader: BASE_VERTEX_SHADER,
+    fragmentShader: DYE_SEED_SHADER,
+  }));
+
+  const bloomPrefilterMat = useDisposable(() => new THREE.ShaderMaterial({
+    uniforms: {
+      uTexture: { value: null },
+      curve: { value: new THREE.Vector3() },
+      threshold: { value: 0 },
+    },
+    vertexShader: BASE_VERTEX_SHADER,
+    fragmentShader: BLOOM_PREFILTER_SHADER,
+  }));
+
+  const bloomDownsampleMat = useDisposable(() => new THREE.ShaderMaterial({
+    uniforms: {
+      uTexture: { value: null },
+      texelSize: { value: new THREE.Vector2() },
+    },
+    vertexShader: BASE_VERTEX_SHADER,
+    fragmentShader: BLOOM_DOWNSAMPLE_SHADER,
+  }));
+
+  const bloomUpsampleMat = useDisposable(() => new THREE.ShaderMaterial({
+    uniforms: {
+      uTexture: { value: null },
+      uBase: { value: null },
+      texelSize: { value: new THREE.Vector2() },
+    },
+    vertexShader: BASE_VERTEX_SHADER,
+    fragmentShader: BLOOM_UPSAMPLE_SHADER,
+  }));
+
+  const sunraysMaskMat = useDisposable(() => new THREE.ShaderMaterial({
+    uniforms: {
+      uTexture: { value: null },
+    },
+    vertexShader: BASE_VERTEX_SHADER,
+    fragmentShader: SUNRAYS_MASK_SHADER,
+  }));
+
+  const sunraysMat = useDisposable(() => new THREE.ShaderMaterial({
+    uniforms: {
+      uTexture: { value: null },
+      weight: { value: 1 },
+    },
+    vertexShader: BASE_VERTEX_SHADER,
+    fragmentShader: SUNRAYS_SHADER,
+  }));
+
+  const displayMat = useDisposable(() => new THREE.ShaderMaterial({
     uniforms: {
       uTexture: { value: null },
       uVelocity: { value: null },
+      uObstacles: { value: null },
+      uBloom: { value: null },
+      uSunrays: { value: null },
+      uDitherTexture: { value: null },
+      bloomEnabled: { value: false },
+      sunraysEnabled: { value: false },
+      ditheringEnabled: { value: false },
+      vignetteEnabled: { value: true },
+      transparent: { value: false },
+      bloomIntensity: { value: 0 },
+      brightness: { value: 1 },
+      ditherScale: { value: new THREE.Vector2(1, 1) },
+      uDebugField: { value: null },
+      debugMode: { value: 0 },
+      debugOverlay: { value: false },
+      debugOpacity: { value: 0.6 },
+      debugScale: { value: 1 },
+      resolution: { value: new THREE.Vector2(1, 1) },
     },
     vertexShader: BASE_VERTEX_SHADER,
     fragmentShader: DISPLAY_SHADER,
   }));
 
+  const probeMat = useDisposable(() => new THREE.ShaderMaterial({
+    uniforms: {
+      uVelocity: { value: null },
+      uPressure: { value: null },
+      uDivergence: { value: null },
+      uCurl: { value: null },
+      uDensity: { value: null },
+      point: { value: new THREE.Vector2() },
+    },
+    vertexShader: BASE_VERTEX_SHADER,
+    fragmentShader: PROBE_SHADER,
+  }));
+
+  const particleUpdateMat = useDisposable(() => new THREE.ShaderMaterial({
+    uniforms: {
+      boundary: { value: 1 },
+      uParticles: { value: null },
+      uVelocity: { value: null },
+      uDensity: { value: null },
+      uObstacles: { value: null },
+      texelSize: { value: new THREE.Vector2() },
+      dt: { value: 0.016 },
+      elapsed: { value: 0.016 },
+      lifetime: { value: 4 },
+      seed: { value: 0 },
+      respawnOnDye: { value: false },
+    },
+    vertexShader: BASE_VERTEX_SHADER,
+    fragmentShader: PARTICLE_UPDATE_SHADER,
+  }));
+
+  const particleMat = useDisposable(() => new THREE.ShaderMaterial({
+    uniforms: {
+      uParticles: { value: null },
+      uVelocity: { value: null },
+      pointSize: { value: 1.5 },
+      lifetime: { value: 4 },
+      speedScale: { value: PARTICLE_SPEED_SCALE },
+      color: { value: new THREE.Color() },
+      colorBySpeed: { value: true },
+    },
+    vertexShader: PARTICLE_VERTEX_SHADER,
+    fragmentShader: PARTICLE_FRAGMENT_SHADER,
+    blending: THREE.AdditiveBlending,
+    transparent: true,
+    depthTest: false,
+    depthWrite: false,
+  }));
+
   const quadGeometry = useMemo(() => new THREE.PlaneGeometry(2, 2), []);
+  useEffect(() => () => quadGeometry.dispose(), [quadGeometry]);
   const scene = useMemo(() => new THREE.Scene(), []);
   const camera = useMemo(() => new THREE.Camera(), []);
+
+  // The one full-screen quad every offscreen pass draws with; only its material changes
+  const quad = useMemo(() => {
+    const mesh = new THREE.Mesh(quadGeometry);
+    mesh.frustumCulled = false;
+    scene.add(mesh);
+    return mesh;
+  }, [quadGeometry, scene]);
+
+  // Drawn by R3F after the display quad; vertex positions come from the state texture, so
+  // the position attribute is only there to set the vertex count
+  const particlePoints = useMemo(() => {
+    const count = particleSide * particleSide;
+    const reference = new Float32Array(count * 2);
+    for (let i = 0; i < count; i++) {
+      reference[i * 2] = ((i % particleSide) + 0.5) / particleSide;
+      reference[i * 2 + 1] = (Math.floor(i / particleSide) + 0.5) / particleSide;
+    }
+    const geometry = new THREE.BufferGeometry();
+    geometry.setAttribute('position', new THREE.BufferAttribute(new Float32Array(count * 3), 3));
+    geometry.setAttribute('reference', new THREE.BufferAttribute(reference, 2));
+    const points = new THREE.Points(geometry, particleMat.current);
+    points.frustumCulled = false;
+    points.renderOrder = 1;
+    points.visible = false;
+    return points;
+  }, [particleSide]);
+  useEffect(() => () => particlePoints.geometry.dispose(), [particlePoints]);
   
-  // Interaction State
-  const pointer = useRef({ x: 0, y: 0, dx: 0, dy: 0, moved: false, down: false });
+  // Interaction State: one entry per active pointerId (mouse, pen or each finger)
+  const pointers = useRef(new Map<number, TrackedPointer>());
+  const replayQueue = useRef<PointerData[]>([]);
+  const cursor = useRef<{ x: number; y: number } | null>(null);
 
   // Music Viz State
   const wanderer = useRef({ x: 0.5, y: 0.5 });
-  const lastBass = useRef(0);
   const movementRef = useRef(0);
+  const audioMappingRef = useRef(audioMapping);
+  useEffect(() => { audioMappingRef.current = audioMapping; }, [audioMapping]);
+
+  // Onsets and drops arrive as events during analyzeMusic() in the frame loop
+  const signalTracker = useMemo(() => new AudioSignalTracker(), []);
+  useEffect(() => audioService.musicAnalyzer.subscribe(signalTracker.handleEvent), [signalTracker]);
 
   // Ambience State: Multiple independent agents with unique paths covering full screen
   const ambienceAgents = useRef(Array.from({ length: 7 }).map(() => ({
@@ -143,52 +692,137 @@ const Fluid = ({ mode, isMusicActive = false, ambienceMode, onInteract }: FluidP
   })));
 
   useEffect(() => {
-    const handleMove = (e: PointerEvent | TouchEvent) => {
-      let x, y;
-      if ('touches' in e) {
-        x = e.touches[0].clientX;
-        y = e.touches[0].clientY;
+    const createPointer = (e: PointerEvent): TrackedPointer => ({
+      id: e.pointerId,
+      x: e.clientX,
+      y: e.clientY,
+      dx: 0,
+      dy: 0,
+      moved: false,
+      down: e.buttons > 0,
+      color: [0, 0, 0],
+      seed: Math.random(),
+      brush: 'none',
+    });
+
+    const brushFor = (e: PointerEvent): TrackedPointer['brush'] => {
+      if (!e.shiftKey) return 'none';
+      return e.altKey ? 'erase' : 'draw';
+    };
+
+    const handleDown = (e: PointerEvent) => {
+      const existing = pointers.current.get(e.pointerId);
+      if (existing) {
+        existing.down = true;
+        existing.brush = brushFor(e);
       } else {
-        x = (e as PointerEvent).clientX;
-        y = (e as PointerEvent).clientY;
+        pointers.current.set(e.pointerId, { ...createPointer(e), down: true, brush: brushFor(e) });
+      }
+    };
+
+    const handleMove = (e: PointerEvent) => {
+      cursor.current = { x: e.clientX, y: e.clientY };
+      const p = pointers.current.get(e.pointerId);
+      if (!p) {
+        // First sighting (e.g. a hovering mouse): start tracking without a delta jump
+        pointers.current.set(e.pointerId, createPointer(e));
+        return;
       }
 
-      const dx = x - pointer.current.x;
-      const dy = y - pointer.current.y;
-      
-      pointer.current = {
-        x,
-        y,
-        dx,
-        dy,
-        moved: true,
-        down: true
-      };
+      // Accumulate so several events between frames are not lost
+      p.dx += e.clientX - p.x;
+      p.dy += e.clientY - p.y;
+      p.x = e.clientX;
+      p.y = e.clientY;
+      p.moved = true;
+      if (!e.shiftKey) p.brush = 'none';
     };
 
-    const handleUp = () => { pointer.current.down = false; };
+    const handleUp = (e: PointerEvent) => {
+      // A hovering mouse keeps emitting after release; fingers and pens are gone
+      if (e.pointerType === 'mouse') {
+        const p = pointers.current.get(e.pointerId);
+        if (p) {
+          p.down = false;
+          p.brush = 'none';
+        }
+      } else {
+        pointers.current.delete(e.pointerId);
+        audioService.releaseVoice(e.pointerId);
+      }
+    };
 
+    window.addEventListener('pointerdown', handleDown);
     window.addEventListener('pointermove', handleMove);
-    window.addEventListener('touchmove', handleMove);
     window.addEventListener('pointerup', handleUp);
-    window.addEventListener('touchend', handleUp);
+    window.addEventListener('pointercancel', handleUp);
     
     return () => {
+      window.removeEventListener('pointerdown', handleDown);
       window.removeEventListener('pointermove', handleMove);
-      window.removeEventListener('touchmove', handleMove);
       window.removeEventListener('pointerup', handleUp);
-      window.removeEventListener('touchend', handleUp);
+      window.removeEventListener('pointercancel', handleUp);
+      audioService.releaseAllVoices();
     };
   }, []);
 
   const renderPass = (target: THREE.WebGLRenderTarget | null, material: THREE.ShaderMaterial) => {
-    const mesh = new THREE.Mesh(quadGeometry, material);
-    scene.add(mesh);
+    quad.material = material;
     gl.setRenderTarget(target);
     gl.render(scene, camera);
     gl.setRenderTarget(null);
-    scene.remove(mesh);
-    mesh.geometry.dispose(); 
+  };
+
+  // Move a ping-pong field along the current velocity with the given scheme, leaving the result in pair[0].
+  // Expects advectionMat's dt and obstacles to be set for this frame.
+  const advect = (
+    pair: THREE.WebGLRenderTarget[],
+    scratch: React.MutableRefObject<THREE.WebGLRenderTarget[]>,
+    scheme: AdvectionScheme,
+    dissipation: number,
+    texelX: number,
+    texelY: number
+  ) => {
+    const uniforms = advectionMat.current.uniforms;
+    uniforms.uVelocity.value = velocity.current[0].texture;
+    uniforms.uSource.value = pair[0].texture;
+    uniforms.texelSize.value.set(texelX, texelY);
+
+    if (scheme === 'semiLagrangian') {
+      uniforms.dissipation.value = dissipation;
+      renderPass(pair[1], advectionMat.current);
+      pair.reverse();
+      return;
+    }
+
+    const { width, height } = pair[0];
+    if (!scratch.current.length || scratch.current[0].width !== width || scratch.current[0].height !== height) {
+      scratch.current.forEach(t => t.dispose());
+      scratch.current = [createTarget(width, height), createTarget(width, height)];
+    }
+    const [forward, backward] = scratch.current;
+
+    // Forward, then back again with dt negated; fading is applied once, in the correction
+    const dt = uniforms.dt.value;
+    uniforms.dissipation.value = 1.0;
+    renderPass(forward, advectionMat.current);
+    uniforms.uSource.value = forward.texture;
+    uniforms.dt.value = -dt;
+    renderPass(backward, advectionMat.current);
+    uniforms.dt.value = dt;
+
+    const correction = advectionCorrectionMat.current.uniforms;
+    correction.uVelocity.value = velocity.current[0].texture;
+    correction.uSource.value = pair[0].texture;
+    correction.uForward.value = forward.texture;
+    correction.uBackward.value = backward.texture;
+    correction.uObstacles.value = uniforms.uObstacles.value;
+    correction.texelSize.value.set(texelX, texelY);
+    correction.dt.value = dt;
+    correction.dissipation.value = dissipation;
+    correction.bfecc.value = scheme === 'bfecc';
+    renderPass(pair[1], advectionCorrectionMat.current);
+    pair.reverse();
   };
 
   const applySplat = (x: number, y: number, dx: number, dy: number, color: THREE.Vector3, radius: number) => {
@@ -200,17 +834,400 @@ const Fluid = ({ mode, isMusicActive = false, ambienceMode, onInteract }: FluidP
       renderPass(velocity.current[1], splatMat.current);
       velocity.current.reverse();
 
+      const sim = configRef.current;
+      if (hasBuoyancy(sim) && sim.heat > 0) {
+        splatMat.current.uniforms.uTarget.value = temperature.current[0].texture;
+        splatMat.current.uniforms.color.value.set(sim.heat, 0.0, 0.0);
+        renderPass(temperature.current[1], splatMat.current);
+        temperature.current.reverse();
+      }
+
       splatMat.current.uniforms.uTarget.value = density.current[0].texture;
       splatMat.current.uniforms.color.value.copy(color);
       renderPass(density.current[1], splatMat.current);
       density.current.reverse();
   };
 
+  const clearObstacles = () => {
+    clearMat.current.uniforms.uTexture.value = obstacles[1].texture;
+    clearMat.current.uniforms.value.value = 0.0;
+    renderPass(obstacles[0], clearMat.current);
+  };
+
+  // Stamp the brush along the segment the pointer covered this frame so fast strokes stay solid
+  const paintObstacle = (p: TrackedPointer) => {
+    const aspect = size.width / size.height;
+    const steps = Math.max(1, Math.ceil(Math.hypot(p.dx, p.dy) / (OBSTACLE_BRUSH_RADIUS * size.height * 0.5)));
+    obstacleBrushMat.current.uniforms.aspectRatio.value = aspect;
+    obstacleBrushMat.current.uniforms.value.value = p.brush === 'draw' ? 1.0 : 0.0;
+    for (let i = 1; i <= steps; i++) {
+      const t = i / steps;
+      const x = (p.x - p.dx * (1 - t)) / size.width;
+      const y = (p.y - p.dy * (1 - t)) / size.height;
+      obstacleBrushMat.current.uniforms.uTarget.value = obstacles[0].texture;
+      obstacleBrushMat.current.uniforms.point.value.set(x, 1.0 - y);
+      renderPass(obstacles[1], obstacleBrushMat.current);
+      obstacles.reverse();
+    }
+  };
+
+  // Bake the mask prop into the obstacle field (replacing anything painted by hand)
+  useEffect(() => {
+    if (!obstacleMask) {
+      clearObstacles();
+      return;
+    }
+
+    let cancelled = false;
+    let texture: THREE.Texture | null = null;
+    const bake = (tex: THREE.Texture) => {
+      if (cancelled) return;
+      const image = tex.image as { width: number; height: number };
+      obstacleMaskMat.current.uniforms.uMask.value = tex;
+      obstacleMaskMat.current.uniforms.aspectRatio.value = size.width / size.height;
+      obstacleMaskMat.current.uniforms.maskAspect.value = image.width / Math.max(1, image.height);
+      renderPass(obstacles[0], obstacleMaskMat.current);
+    };
+
+    if (typeof obstacleMask === 'string') {
+      texture = new THREE.TextureLoader().load(obstacleMask, bake, undefined, (e: unknown) => {
+        console.error("Failed to load obstacle mask", e);
+      });
+    } else {
+      texture = new THREE.Texture(obstacleMask);
+      texture.needsUpdate = true;
+      bake(texture);
+    }
+
+    return () => {
+      cancelled = true;
+      texture?.dispose();
+    };
+  }, [obstacleMask]);
+
+  const clearDye = () => {
+    if (!density.current.length) return;
+    clearMat.current.uniforms.uTexture.value = density.current[1].texture;
+    clearMat.current.uniforms.value.value = 0.0;
+    renderPass(density.current[0], clearMat.current);
+  };
+
+  const seedDye = (texture: THREE.Texture, width: number, height: number, blend: number) => {
+    if (!density.current.length) return;
+    dyeSeedMat.current.uniforms.uTarget.value = density.current[0].texture;
+    dyeSeedMat.current.uniforms.uImage.value = texture;
+    dyeSeedMat.current.uniforms.aspectRatio.value = size.width / size.height;
+    dyeSeedMat.current.uniforms.imageAspect.value = width / Math.max(1, height);
+    dyeSeedMat.current.uniforms.blend.value = blend;
+    renderPass(density.current[1], dyeSeedMat.current);
+    density.current.reverse();
+  };
+
+  // Playing video whose frames bleed into the dye every frame (see useFrame)
+  const dyeVideo = useRef<{ element: HTMLVideoElement; texture: THREE.Texture } | null>(null);
+  const dyeBlendRef = useRef(dyeBlend);
+  useEffect(() => { dyeBlendRef.current = dyeBlend; }, [dyeBlend]);
+
+  // Images are written into the dye once; videos are streamed until the source changes
+  useEffect(() => {
+    if (!dyeSource) return;
+
+    if (dyeSource.kind === 'image') {
+      let cancelled = false;
+      const texture = new THREE.TextureLoader().load(dyeSource.url, (tex: THREE.Texture) => {
+        if (cancelled) return;
+        const image = tex.image as { width: number; height: number };
+        seedDye(tex, image.width, image.height, 1.0);
+      }, undefined, (e: unknown) => {
+        console.error("Failed to load dye image", e);
+      });
+      return () => {
+        cancelled = true;
+        texture.dispose();
+      };
+    }
+
+    const element = document.createElement('video');
+    element.src = dyeSource.url;
+    element.muted = true;
+    element.loop = true;
+    element.playsInline = true;
+    element.play().catch((e) => console.error("Failed to play dye video", e));
+    const texture = new THREE.VideoTexture(element);
+    dyeVideo.current = { element, texture };
+
+    return () => {
+      dyeVideo.current = null;
+      element.pause();
+      element.removeAttribute('src');
+      element.load();
+      texture.dispose();
+    };
+  }, [dyeSource]);
+
+  // The sim grid followed by successively halved grids, rebuilt when the sim grid changes size
+  const multigridLevels = (): MultigridLevel[] => {
+    const { width, height } = pressure.current[0];
+    if (multigrid.current?.residual.width !== width || multigrid.current?.residual.height !== height) {
+      disposeMultigrid();
+      const coarse: MultigridLevel[] = [];
+      for (let w = width >> 1, h = height >> 1; Math.min(w, h) >= MULTIGRID_MIN_SIZE; w >>= 1, h >>= 1) {
+        coarse.push({ pressure: [createTarget(w, h), createTarget(w, h)], rhs: createTarget(w, h), residual: createTarget(w, h) });
+      }
+      multigrid.current = { residual: createTarget(width, height), coarse };
+    }
+    return [
+      { pressure: pressure.current, rhs: divergence.current!, residual: multigrid.current!.residual },
+      ...multigrid.current!.coarse,
+    ];
+  };
+
+  const relax = (pair: THREE.WebGLRenderTarget[], rhs: THREE.WebGLRenderTarget, iterations: number, weight: number) => {
+    const uniforms = pressureMat.current.uniforms;
+    uniforms.uDivergence.value = rhs.texture;
+    uniforms.texelSize.value.set(1.0 / rhs.width, 1.0 / rhs.height);
+    uniforms.weight.value = weight;
+    for (let i = 0; i < iterations; i++) {
+      uniforms.uPressure.value = pair[0].texture;
+      renderPass(pair[1], pressureMat.current);
+      pair.reverse();
+    }
+  };
+
+  const computeResidual = (level: MultigridLevel) => {
+    const uniforms = residualMat.current.uniforms;
+    uniforms.uPressure.value = level.pressure[0].texture;
+    uniforms.uDivergence.value = level.rhs.texture;
+    uniforms.uObstacles.value = pressureMat.current.uniforms.uObstacles.value;
+    uniforms.texelSize.value.set(1.0 / level.rhs.width, 1.0 / level.rhs.height);
+    renderPass(level.residual, residualMat.current);
+  };
+
+  // Smooth, solve for the error on the next coarser grid, add it back, smooth again
+  const vCycle = (levels: MultigridLevel[], index: number) => {
+    const level = levels[index];
+    if (index === levels.length - 1) {
+      relax(level.pressure, level.rhs, MULTIGRID_COARSE_ITERATIONS, 1.0);
+      return;
+    }
+    relax(level.pressure, level.rhs, MULTIGRID_SMOOTHING, MULTIGRID_WEIGHT);
+    computeResidual(level);
+
+    // Restrict: the linear filter averages 2x2 fine texels, and the coarse stencil spans twice the
+    // distance, so the right-hand side scales by 2^2. The error guess starts at zero.
+    const coarse = levels[index + 1];
+    const clear = clearMat.current.uniforms;
+    clear.uTexture.value = level.residual.texture;
+    clear.value.value = 4.0;
+    renderPass(coarse.rhs, clearMat.current);
+    clear.value.value = 0.0;
+    renderPass(coarse.pressure[0], clearMat.current);
+    vCycle(levels, index + 1);
+
+    prolongateMat.current.uniforms.uPressure.value = level.pressure[0].texture;
+    prolongateMat.current.uniforms.uCorrection.value = coarse.pressure[0].texture;
+    renderPass(level.pressure[1], prolongateMat.current);
+    level.pressure.reverse();
+    relax(level.pressure, level.rhs, MULTIGRID_SMOOTHING, MULTIGRID_WEIGHT);
+  };
+
+  // RMS residual on the sim grid: squared residuals are averaged down the level chain and the last few read back
+  const measureResidual = (levels: MultigridLevel[]) => {
+    computeResidual(levels[0]);
+    const clear = clearMat.current.uniforms;
+    clear.value.value = 1.0;
+    for (let i = 1; i < levels.length; i++) {
+      clear.uTexture.value = levels[i - 1].residual.texture;
+      renderPass(levels[i].residual, clearMat.current);
+    }
+
+    const target = levels[levels.length - 1].residual;
+    const count = target.width * target.height;
+    const isHalf = dataType === THREE.HalfFloatType;
+    const buffer = isHalf ? new Uint16Array(count * 4) : new Float32Array(count * 4);
+    gl.readRenderTargetPixels(target, 0, 0, target.width, target.height, buffer);
+    let sum = 0;
+    for (let i = 0; i < count; i++) sum += isHalf ? THREE.DataUtils.fromHalfFloat(buffer[i * 4 + 1]) : buffer[i * 4 + 1];
+    return Math.sqrt(Math.max(0, sum / count));
+  };
+
+  // Expects pressureMat's obstacles and the boundary uniforms to be set for this frame
+  const solvePressure = (sim: SimulationConfig, report: boolean): PressureSolveStats => {
+    const tolerance = sim.pressureTolerance;
+    const multigridSolve = sim.pressureSolver === 'multigrid';
+    // Plain Jacobi without any residual checks never touches the extra grids
+    const levels = multigridSolve || tolerance > 0 || report ? multigridLevels() : [];
+    let iterations = 0;
+    let residual: number | null = null;
+
+    const limit = multigridSolve ? sim.pressureCycles : sim.pressureIterations;
+    while (iterations < limit) {
+      if (multigridSolve) {
+        vCycle(levels, 0);
+        iterations++;
+      } else {
+        const block = tolerance > 0 ? Math.min(PRESSURE_CHECK_INTERVAL, limit - iterations) : limit - iterations;
+        relax(pressure.current, divergence.current!, block, 1.0);
+        iterations += block;
+      }
+      if (tolerance > 0) {
+        residual = measureResidual(levels);
+        if (residual <= tolerance) break;
+      }
+    }
+
+    if (report && residual === null) residual = measureResidual(levels);
+    return { solver: sim.pressureSolver, iterations, residual };
+  };
+
+  // Sample every field at one point and read it back; half-float targets come back as raw 16-bit values
+  const readProbe = (u: number, v: number): FieldProbe => {
+    const uniforms = probeMat.current.uniforms;
+    uniforms.uVelocity.value = velocity.current[0].texture;
+    uniforms.uPressure.value = pressure.current[0].texture;
+    uniforms.uDivergence.value = divergence.current!.texture;
+    uniforms.uCurl.value = curlTarget.current!.texture;
+    uniforms.uDensity.value = density.current[0].texture;
+    uniforms.point.value.set(u, v);
+    renderPass(probeTarget, probeMat.current);
+
+    const isHalf = dataType === THREE.HalfFloatType;
+    const buffer = isHalf ? new Uint16Array(8) : new Float32Array(8);
+    gl.readRenderTargetPixels(probeTarget, 0, 0, 2, 1, buffer);
+    const values = Array.from(buffer, (x) => isHalf ? THREE.DataUtils.fromHalfFloat(x) : x);
+    return {
+      x: u,
+      y: v,
+      velocity: [values[0], values[1]],
+      pressure: values[2],
+      divergence: values[3],
+      curl: values[4],
+      dye: [values[5], values[6], values[7]],
+    };
+  };
+
+  // Render the current frame's display pass offscreen at any size, leaving the live canvas untouched
+  const capture = async ({ longEdge, transparent, vignette }: CaptureOptions): Promise<Blob> => {
+    const aspect = size.width / size.height;
+    const maxSize = Math.min(MAX_CAPTURE_SIZE, gl.capabilities.maxTextureSize);
+    const edge = Math.min(maxSize, longEdge ?? Math.round(Math.max(size.width, size.height) * gl.getPixelRatio()));
+    const width = Math.max(1, Math.round(aspect >= 1 ? edge : edge * aspect));
+    const height = Math.max(1, Math.round(aspect >= 1 ? edge / aspect : edge));
+
+    const target = new THREE.WebGLRenderTarget(width, height, {
+      type: THREE.UnsignedByteType,
+      format: THREE.RGBAFormat,
+      depthBuffer: false,
+      stencilBuffer: false,
+    });
+    const pixels = new Uint8Array(width * height * 4);
+    const display = displayMat.current.uniforms;
+    const previousDitherScale = display.ditherScale.value.clone();
+
+    try {
+      display.vignetteEnabled.value = vignette;
+      display.transparent.value = transparent;
+      display.ditherScale.value.set(width / ditherTexture.image.width, height / ditherTexture.image.height);
+      renderPass(target, displayMat.current);
+      gl.readRenderTargetPixels(target, 0, 0, width, height, pixels);
+    } finally {
+      display.vignetteEnabled.value = true;
+      display.transparent.value = false;
+      display.ditherScale.value.copy(previousDitherScale);
+      target.dispose();
+    }
+
+    // WebGL rows start at the bottom; flip them into a 2D canvas for PNG encoding
+    const canvas = document.createElement('canvas');
+    canvas.width = width;
+    canvas.height = height;
+    const context = canvas.getContext('2d')!;
+    const image = context.createImageData(width, height);
+    const rowBytes = width * 4;
+    for (let y = 0; y < height; y++) {
+      image.data.set(pixels.subarray((height - 1 - y) * rowBytes, (height - y) * rowBytes), y * rowBytes);
+    }
+    context.putImageData(image, 0, 0);
+
+    return new Promise((resolve, reject) => {
+      canvas.toBlob(blob => blob ? resolve(blob) : reject(new Error("PNG encoding failed")), 'image/png');
+    });
+  };
+
+  const reset = () => {
+    clearMat.current.uniforms.value.value = 0.0;
+    [velocity.current, pressure.current, temperature.current, density.current].forEach((pair) => {
+      if (!pair.length) return;
+      clearMat.current.uniforms.uTexture.value = pair[1].texture;
+      renderPass(pair[0], clearMat.current);
+    });
+  };
+
+  useImperativeHandle(ref, () => ({
+    clearObstacles,
+    clearDye,
+    capture,
+    injectPointer: (sample) => { replayQueue.current.push(sample); },
+    reset,
+  }));
+
+  // Bright-pass, then blur by walking down the mip chain and accumulating back up
+  const applyBloom = (source: THREE.WebGLRenderTarget, post: PostProcessingConfig): THREE.Texture => {
+    const { bloomDown, bloomUp } = postTargets;
+    const knee = post.bloomThreshold * post.bloomSoftKnee + 0.0001;
+    bloomPrefilterMat.current.uniforms.uTexture.value = source.texture;
+    bloomPrefilterMat.current.uniforms.curve.value.set(post.bloomThreshold - knee, knee * 2.0, 0.25 / knee);
+    bloomPrefilterMat.current.uniforms.threshold.value = post.bloomThreshold;
+    renderPass(bloomDown[0], bloomPrefilterMat.current);
+
+    const levels = Math.max(1, Math.min(post.bloomIterations, bloomDown.length));
+    for (let i = 1; i < levels; i++) {
+      bloomDownsampleMat.current.uniforms.uTexture.value = bloomDown[i - 1].texture;
+      bloomDownsampleMat.current.uniforms.texelSize.value.set(1.0 / bloomDown[i - 1].width, 1.0 / bloomDown[i - 1].height);
+      renderPass(bloomDown[i], bloomDownsampleMat.current);
+    }
+
+    let last = bloomDown[levels - 1];
+    for (let i = levels - 2; i >= 0; i--) {
+      bloomUpsampleMat.current.uniforms.uTexture.value = last.texture;
+      bloomUpsampleMat.current.uniforms.uBase.value = bloomDown[i].texture;
+      bloomUpsampleMat.current.uniforms.texelSize.value.set(1.0 / last.width, 1.0 / last.height);
+      renderPass(bloomUp[i], bloomUpsampleMat.current);
+      last = bloomUp[i];
+    }
+    return last.texture;
+  };
+
+  const applySunrays = (source: THREE.WebGLRenderTarget, post: PostProcessingConfig): THREE.Texture => {
+    sunraysMaskMat.current.uniforms.uTexture.value = source.texture;
+    renderPass(postTargets.sunraysMask, sunraysMaskMat.current);
+    sunraysMat.current.uniforms.uTexture.value = postTargets.sunraysMask.texture;
+    sunraysMat.current.uniforms.weight.value = post.sunraysWeight;
+    renderPass(postTargets.sunrays, sunraysMat.current);
+    return postTargets.sunrays.texture;
+  };
+
   useFrame((state, delta) => {
+    if (!velocity.current.length || !density.current.length) return;
+
     const currentMode = modeRef.current;
+    const descriptor = modeRegistry.get(currentMode);
+    const sim = configRef.current;
+    const [simTexelX, simTexelY] = [1.0 / velocity.current[0].width, 1.0 / velocity.current[0].height];
+    const [dyeTexelX, dyeTexelY] = [1.0 / density.current[0].width, 1.0 / density.current[0].height];
+
+    // Every stage that looks across cells or traces paths shares the same edge treatment
+    const boundary = BOUNDARY_MODES.indexOf(sim.boundary);
+    [advectionMat, advectionCorrectionMat, splatMat, curlMat, vorticityMat, divergenceMat, pressureMat, residualMat, gradientSubtractMat, particleUpdateMat].forEach((mat) => {
+      mat.current.uniforms.boundary.value = boundary;
+    });
+
+    const nextTier = governor.current!.sample(delta);
+    if (nextTier !== null) setTierIndex(nextTier);
     const time = state.clock.elapsedTime;
     
     // 1. Process Automated Splats (Music or Ambience)
+    let modulation = NEUTRAL_MODULATION;
     if (isMusicActive) {
       if (ambienceMode) {
         // --- AMBIENCE MODE (Zen, Multi-Agent) ---
@@ -271,14 +1288,15 @@ const Fluid = ({ mode, isMusicActive = false, ambienceMode, onInteract }: FluidP
 
       } else {
         // --- MUSIC MODE (Chaotic, Reactive) ---
-        const audioData = audioService.getAudioData();
-        if (audioData) {
-          let bassSum = 0; for (let i = 0; i < 15; i++) bassSum += audioData[i];
-          const bassAvg = bassSum / 15;
-          let volSum = 0; for (let i = 0; i < audioData.length; i++) volSum += audioData[i];
-          const volAvg = volSum / audioData.length;
-          
-          const excitement = Math.pow(volAvg / 255.0, 2.5);
+        const features = audioService.analyzeMusic();
+        if (features) {
+          const routes = audioMappingRef.current;
+          const signals = signalTracker.update(features, audioService.getStereoLevels(), delta);
+          modulation = resolveModulation(routes, signals);
+          const color = new THREE.Vector3(...shiftHue(descriptor.palette({ time, random: Math.random(), seed: 0, source: 'music' }), modulation.hue));
+
+          // Wanderer: roams a Lissajous path, faster and wider the more excited it is
+          const excitement = modulation.wanderer ?? 0;
           const tVal = time * 1.2; 
           const chaos = Math.sin(tVal) * Math.cos(tVal * 2.7) + Math.sin(tVal * 1.5) * 0.5;
           const sporadicFactor = 1.2 + Math.pow(Math.abs(chaos + 0.5), 2.5) * 4.0;
@@ -292,28 +1310,26 @@ const Fluid = ({ mode, isMusicActive = false, ambienceMode, onInteract }: FluidP
           wanderer.current.x += (tx - wanderer.current.x) * smooth;
           wanderer.current.y += (ty - wanderer.current.y) * smooth;
 
-          let color = new THREE.Vector3();
-          switch (currentMode) {
-            case 'ignite': color.set(1.0, 0.2, 0.0); break;
-            case 'frost': color.set(0.1, 0.6, 1.0); break;
-            case 'mist': color.set(0.8, 0.8, 0.8); break;
-            case 'flux':
-            default:
-              const tempColor = new THREE.Color();
-              tempColor.setHSL((time * 0.5) % 1.0, 0.8, 0.5);
-              color.set(tempColor.r, tempColor.g, tempColor.b);
-              break;
-          }
-
-          if (volAvg > 2) {
+          if (modulation.wanderer !== null) {
             const trailDx = (tx - wanderer.current.x) * 40.0 * excitement;
             const trailDy = (ty - wanderer.current.y) * 40.0 * excitement;
-            applySplat(wanderer.current.x, wanderer.current.y, trailDx, trailDy, color, 0.004 + (excitement * 0.005));
+            applySplat(wanderer.current.x, wanderer.current.y, trailDx, trailDy, color, (0.004 + (excitement * 0.005)) * modulation.radius);
           }
 
-          const isDrop = bassAvg > 110 && (bassAvg - lastBass.current) > 20;
-          if (isDrop) {
-            const dropParticleCount = 30;
+          // Emitters: fixed positions pushing one way, as hard as their signal; routes measure y and angles upwards
+          routes.forEach((route) => {
+            if (route.target !== 'emitter' || !route.position) return;
+            const strength = readSignal(signals, route) * route.amount;
+            if (strength < EMITTER_GATE) return;
+            const angle = ((route.direction ?? 90) * Math.PI) / 180;
+            const force = strength * EMITTER_FORCE;
+            const emitterColor = color.clone().multiplyScalar(Math.min(strength, 1));
+            applySplat(route.position[0], 1.0 - route.position[1], Math.cos(angle) * force, -Math.sin(angle) * force, emitterColor, (0.002 + strength * 0.004) * modulation.radius);
+          });
+
+          // Bursts: splats flung in random directions all over the screen
+          if (modulation.burst > 0) {
+            const dropParticleCount = Math.round(30 * Math.min(modulation.burst, 2));
             const intensity = 4.0;
             for (let i = 0; i < dropParticleCount; i++) {
               const rx = Math.random();
@@ -323,134 +1339,233 @@ const Fluid = ({ mode, isMusicActive = false, ambienceMode, onInteract }: FluidP
               const bdx = Math.cos(angle) * speed;
               const bdy = Math.sin(angle) * speed;
               const flashColor = color.clone().multiplyScalar(intensity);
-              applySplat(rx, ry, bdx, bdy, flashColor, 0.005 + Math.random() * 0.015);
+              applySplat(rx, ry, bdx, bdy, flashColor, (0.005 + Math.random() * 0.015) * modulation.radius);
             }
           }
-          lastBass.current = bassAvg;
         }
       }
     }
 
 
-    // 2. Input Interaction (Splat)
-    if (pointer.current.moved) {
-      const dx = pointer.current.dx;
-      const dy = pointer.current.dy;
+    // Stream the current video frame into the dye so the footage is stirred by the flow
+    const video = dyeVideo.current;
+    if (video && video.element.readyState >= video.element.HAVE_CURRENT_DATA) {
+      seedDye(video.texture, video.element.videoWidth, video.element.videoHeight, dyeBlendRef.current);
+    }
+
+    // 2. Input Interaction (one splat per moving pointer)
+    let maxVelocityMag = 0;
+    const splatPointer = (u: number, v: number, dx: number, dy: number, color: PointerData['color']) => {
       const velocityMag = Math.sqrt(dx*dx + dy*dy);
-      
-      // Update Audio (Procedural)
-      audioService.update(Math.min(velocityMag / 20, 1));
-      if (onInteract) onInteract(velocityMag);
-
-      const u = pointer.current.x / size.width;
-      const v = pointer.current.y / size.height; // Flip handled in splat
-
-      // Determine color based on mode
-      let color = new THREE.Vector3();
-      const rVal = Math.random();
-      
-      switch (currentMode) {
-        case 'ignite':
-          color.set(1.0, 0.1 + rVal * 0.3, 0.05);
-          break;
-        case 'frost':
-          color.set(0.05, 0.5 + rVal * 0.4, 0.9 + rVal * 0.1);
-          break;
-        case 'mist':
-          const grey = 0.5 + rVal * 0.5;
-          color.set(grey, grey, grey);
-          break;
-        case 'flux':
-        default:
-          const r = Math.sin(time * 0.5) * 0.5 + 0.5;
-          const g = Math.sin(time * 0.5 + 2.0) * 0.5 + 0.5;
-          const b = Math.sin(time * 0.5 + 4.0) * 0.5 + 0.5;
-          color.set(r, g, b);
-          break;
+      maxVelocityMag = Math.max(maxVelocityMag, velocityMag);
+      const interactRadius = sim.radius + Math.min(velocityMag, 100) * 0.00005; 
+      applySplat(u, v, dx * 5.0, dy * 5.0, new THREE.Vector3(...color), interactRadius);
+    };
+
+    // Replayed samples splat exactly as recorded, colour included. Their voices use negative ids so they never
+    // collide with live pointers, and fade out on their own once the replay stops updating them.
+    replayQueue.current.forEach((sample) => {
+      const dx = sample.dx * size.width;
+      const dy = sample.dy * size.height;
+      splatPointer(sample.x, sample.y, dx, dy, sample.color);
+      audioService.updateVoice(-1 - sample.id, sample.x, 1.0 - sample.y, Math.min(Math.hypot(dx, dy) / 20, 1));
+    });
+    replayQueue.current = [];
+
+    pointers.current.forEach((p) => {
+      // Every pointer drives its own voice; still ones fade to silence and eventually give it up
+      const speed = p.moved ? Math.hypot(p.dx, p.dy) : 0;
+      audioService.updateVoice(p.id, p.x / size.width, 1.0 - p.y / size.height, Math.min(speed / 20, 1));
+      if (!p.moved) return;
+
+      if (p.down && p.brush !== 'none') {
+        paintObstacle(p);
+        p.moved = false;
+        p.dx = 0;
+        p.dy = 0;
+        return;
       }
-      
-      const interactRadius = 0.001 + Math.min(velocityMag, 100) * 0.00005; 
-      
-      applySplat(u, v, dx * 5.0, dy * 5.0, color, interactRadius);
-
-      pointer.current.moved = false;
-      pointer.current.dx = 0;
-      pointer.current.dy = 0;
-    } else {
-      audioService.update(0); 
-    }
 
-    // Determine dissipation based on mode
-    let velocityDissipation = 0.99; 
-    let densityDissipation = 0.97;
-
-    switch (currentMode) {
-      case 'ignite':
-        velocityDissipation = 0.98;
-        densityDissipation = 0.92; 
-        break;
-      case 'mist':
-        velocityDissipation = 0.99; 
-        densityDissipation = 0.98; 
-        break;
-      case 'frost':
-        velocityDissipation = 0.95; 
-        densityDissipation = 0.97;
-        break;
-      case 'flux':
-      default:
-        velocityDissipation = 0.99;
-        densityDissipation = 0.97;
-        break;
-    }
+      const u = p.x / size.width;
+      const v = p.y / size.height; // Flip handled in splat
+
+      // Colour comes from the mode's palette, varied per pointer by its seed
+      p.color = descriptor.palette({ time, random: Math.random(), seed: p.seed, source: 'pointer' });
+      splatPointer(u, v, p.dx, p.dy, p.color);
+
+      if (inputRecorder.isRecording) {
+        inputRecorder.record({
+          type: 'pointer',
+          pointer: { id: p.id, x: u, y: v, dx: p.dx / size.width, dy: p.dy / size.height, moved: true, down: p.down, color: p.color },
+        });
+      }
+
+      p.moved = false;
+      p.dx = 0;
+      p.dy = 0;
+    });
+
+    audioService.update();
+    if (maxVelocityMag > 0 && onInteract) onInteract(maxVelocityMag);
+
+    advectionMat.current.uniforms.dt.value = sim.timeStep;
+    vorticityMat.current.uniforms.dt.value = sim.timeStep;
+
+    // Every solver stage treats the obstacle field as solid, no-slip walls
+    const obstacleTexture = obstacles[0].texture;
+    advectionMat.current.uniforms.uObstacles.value = obstacleTexture;
+    divergenceMat.current.uniforms.uObstacles.value = obstacleTexture;
+    pressureMat.current.uniforms.uObstacles.value = obstacleTexture;
+    gradientSubtractMat.current.uniforms.uObstacles.value = obstacleTexture;
 
     // 3. Advection (Velocity)
-    advectionMat.current.uniforms.uVelocity.value = velocity.current[0].texture;
-    advectionMat.current.uniforms.uSource.value = velocity.current[0].texture;
-    advectionMat.current.uniforms.texelSize.value.set(1.0 / simRes, 1.0 / simRes);
-    advectionMat.current.uniforms.dissipation.value = velocityDissipation; 
-    renderPass(velocity.current[1], advectionMat.current);
-    velocity.current.reverse();
+    advect(velocity.current, simScratch, sim.velocityAdvection, sim.velocityDissipation, simTexelX, simTexelY);
 
     // 4. Advection (Density)
-    advectionMat.current.uniforms.uVelocity.value = velocity.current[0].texture;
-    advectionMat.current.uniforms.uSource.value = density.current[0].texture;
-    advectionMat.current.uniforms.texelSize.value.set(1.0 / dyeRes, 1.0 / dyeRes);
-    advectionMat.current.uniforms.dissipation.value = densityDissipation;
-    renderPass(density.current[1], advectionMat.current);
-    density.current.reverse();
+    advect(density.current, dyeScratch, sim.densityAdvection, sim.densityDissipation, dyeTexelX, dyeTexelY);
 
-    // 5. Divergence
+    // 4b. Advection (Temperature, always semi-Lagrangian: it only drives buoyancy and is never seen directly)
+    const buoyant = hasBuoyancy(sim);
+    if (buoyant) {
+      advect(temperature.current, simScratch, 'semiLagrangian', sim.temperatureDissipation, simTexelX, simTexelY);
+    }
+
+    // 5. Vorticity Confinement (Curl -> Force)
+    curlMat.current.uniforms.uVelocity.value = velocity.current[0].texture;
+    curlMat.current.uniforms.texelSize.value.set(simTexelX, simTexelY);
+    renderPass(curlTarget.current, curlMat.current);
+
+    vorticityMat.current.uniforms.uVelocity.value = velocity.current[0].texture;
+    vorticityMat.current.uniforms.uCurl.value = curlTarget.current.texture;
+    vorticityMat.current.uniforms.texelSize.value.set(simTexelX, simTexelY);
+    vorticityMat.current.uniforms.curl.value = sim.curl * modulation.curl;
+    renderPass(velocity.current[1], vorticityMat.current);
+    velocity.current.reverse();
+
+    // 5b. Buoyancy (heat lifts, dense dye sinks)
+    if (buoyant) {
+      const angle = sim.buoyancyDirection * Math.PI / 180;
+      buoyancyMat.current.uniforms.uVelocity.value = velocity.current[0].texture;
+      buoyancyMat.current.uniforms.uTemperature.value = temperature.current[0].texture;
+      buoyancyMat.current.uniforms.uDensity.value = density.current[0].texture;
+      buoyancyMat.current.uniforms.buoyancy.value = sim.buoyancy;
+      buoyancyMat.current.uniforms.weight.value = sim.smokeWeight;
+      buoyancyMat.current.uniforms.ambient.value = sim.ambientTemperature;
+      buoyancyMat.current.uniforms.direction.value.set(Math.sin(angle), Math.cos(angle));
+      buoyancyMat.current.uniforms.dt.value = sim.timeStep;
+      renderPass(velocity.current[1], buoyancyMat.current);
+      velocity.current.reverse();
+    }
+
+    // 6. Divergence
     divergenceMat.current.uniforms.uVelocity.value = velocity.current[0].texture;
-    divergenceMat.current.uniforms.texelSize.value.set(1.0 / simRes, 1.0 / simRes);
+    divergenceMat.current.uniforms.texelSize.value.set(simTexelX, simTexelY);
     renderPass(divergence.current, divergenceMat.current);
 
-    // 6. Pressure
-    pressureMat.current.uniforms.uDivergence.value = divergence.current.texture;
-    pressureMat.current.uniforms.texelSize.value.set(1.0 / simRes, 1.0 / simRes);
-    for (let i = 0; i < 20; i++) {
-      pressureMat.current.uniforms.uPressure.value = pressure.current[0].texture;
-      renderPass(pressure.current[1], pressureMat.current);
+    // 7. Pressure (decay last frame's solution, then Jacobi iterations or multigrid V-cycles)
+    if (sim.pressure < 1.0) {
+      clearMat.current.uniforms.uTexture.value = pressure.current[0].texture;
+      clearMat.current.uniforms.value.value = sim.pressure;
+      renderPass(pressure.current[1], clearMat.current);
       pressure.current.reverse();
     }
 
-    // 7. Gradient Subtract
+    solverClock.current += delta;
+    const reportSolve = !!onPressureSolve && solverClock.current >= SOLVER_REPORT_INTERVAL;
+    const solveStats = solvePressure(sim, reportSolve);
+    if (reportSolve) {
+      solverClock.current = 0;
+      onPressureSolve!(solveStats);
+    }
+
+    // 8. Gradient Subtract
     gradientSubtractMat.current.uniforms.uPressure.value = pressure.current[0].texture;
     gradientSubtractMat.current.uniforms.uVelocity.value = velocity.current[0].texture;
-    gradientSubtractMat.current.uniforms.texelSize.value.set(1.0 / simRes, 1.0 / simRes);
+    gradientSubtractMat.current.uniforms.texelSize.value.set(simTexelX, simTexelY);
     renderPass(velocity.current[1], gradientSubtractMat.current);
     velocity.current.reverse();
 
-    // 8. Render to Screen
+    // 8b. Tracer Particles (moved through the divergence-free velocity, drawn over the dye)
+    const particles = resolveParticles(currentMode);
+    const showParticles = particles.enabled && particleState.length > 0;
+    particlePoints.visible = showParticles;
+    if (showParticles) {
+      const update = particleUpdateMat.current.uniforms;
+      update.uParticles.value = particleState[0].texture;
+      update.uVelocity.value = velocity.current[0].texture;
+      update.uDensity.value = density.current[0].texture;
+      update.uObstacles.value = obstacleTexture;
+      // Step in dye texels like the density advection, so tracers keep pace with what they're drawn over
+      update.texelSize.value.set(dyeTexelX, dyeTexelY);
+      update.dt.value = sim.timeStep;
+      update.elapsed.value = delta;
+      update.lifetime.value = particles.lifetime;
+      update.seed.value = Math.random();
+      update.respawnOnDye.value = particles.respawn === 'dye';
+      renderPass(particleState[1], particleUpdateMat.current);
+      particleState.reverse();
+
+      const draw = particleMat.current.uniforms;
+      draw.uParticles.value = particleState[0].texture;
+      draw.uVelocity.value = velocity.current[0].texture;
+      draw.pointSize.value = particles.size * gl.getPixelRatio();
+      draw.lifetime.value = particles.lifetime;
+      draw.color.value.fromArray(particles.color);
+      draw.colorBySpeed.value = particles.colorBySpeed;
+    }
+
+    // 9. Render to Screen
     displayMat.current.uniforms.uTexture.value = density.current[0].texture;
+    displayMat.current.uniforms.uObstacles.value = obstacleTexture;
+
+    // 10. Post-processing (Bloom, Sunrays, Dithering)
+    const post = resolvePostProcessing(currentMode);
+    const display = displayMat.current.uniforms;
+    display.bloomEnabled.value = post.bloom;
+    display.sunraysEnabled.value = post.sunrays;
+    display.ditheringEnabled.value = post.dithering;
+    display.bloomIntensity.value = post.bloomIntensity;
+    display.brightness.value = modulation.brightness;
+    if (post.bloom) display.uBloom.value = applyBloom(density.current[0], post);
+    if (post.sunrays) display.uSunrays.value = applySunrays(density.current[0], post);
+    display.uDitherTexture.value = ditherTexture;
+    display.ditherScale.value.set(
+      (size.width * gl.getPixelRatio()) / ditherTexture.image.width,
+      (size.height * gl.getPixelRatio()) / ditherTexture.image.height
+    );
+
+    // 11. Debug view (field visualization over or instead of the dye)
+    const debugField = debugView?.field ?? 'none';
+    display.debugMode.value = debugField === 'none' ? 0 : debugField === 'velocity' ? 1 : debugField === 'arrows' ? 2 : 3;
+    if (debugView && debugField !== 'none') {
+      const fieldTextures = { pressure: pressure.current[0], divergence: divergence.current, curl: curlTarget.current };
+      if (debugField in fieldTextures) {
+        display.uDebugField.value = fieldTextures[debugField as keyof typeof fieldTextures]!.texture;
+      } else {
+        // Velocity and arrows sample the velocity field itself
+        display.uVelocity.value = velocity.current[0].texture;
+      }
+      display.debugOverlay.value = debugView.overlay;
+      display.debugOpacity.value = debugView.opacity;
+      display.debugScale.value = DEBUG_FIELD_SCALES[debugField] / Math.max(debugView.gain, 0.0001);
+      display.resolution.value.set(size.width * gl.getPixelRatio(), size.height * gl.getPixelRatio());
+    }
+
+    probeClock.current += delta;
+    if (onProbe && cursor.current && probeClock.current >= PROBE_INTERVAL) {
+      probeClock.current = 0;
+      onProbe(readProbe(cursor.current.x / size.width, 1.0 - cursor.current.y / size.height));
+    }
   });
 
   return (
-    <mesh>
-      <planeGeometry args={[2, 2]} />
-      <primitive object={displayMat.current} attach="material" />
-    </mesh>
+    <>
+      <mesh geometry={quadGeometry}>
+        <primitive object={displayMat.current} attach="material" />
+      </mesh>
+      <primitive object={particlePoints} />
+    </>
   );
-};
+});
 
 export default Fluid;
\ No newline at end of file
@@ -0,0 +1,136 @@
+import React, { forwardRef, useEffect, useMemo, useRef } from 'react';
+import { CPU_SIM_RESOLUTION } from '../constants';
+import { audioService } from '../services/audioService';
+import { modeRegistry, resolveSimulationConfig } from '../services/modeRegistry';
+import { FluidMode, SimulationConfig } from '../types';
+import { CpuFluidSolver } from '../utils/cpuSolver';
+
+interface FallbackPointer {
+  x: number;
+  y: number;
+  dx: number;
+  dy: number;
+  moved: boolean;
+  seed: number;
+}
+
+interface FluidCanvas2DProps {
+  mode: FluidMode;
+  config?: Partial<SimulationConfig>;
+}
+
+// Low-resolution stand-in for <Fluid /> on devices without WebGL: the CPU solver drawn through Canvas2D
+const FluidCanvas2D = forwardRef<HTMLCanvasElement, FluidCanvas2DProps>(({ mode, config: configOverrides }, ref) => {
+  const canvas = useRef<HTMLCanvasElement | null>(null);
+  const solver = useMemo(() => new CpuFluidSolver(CPU_SIM_RESOLUTION), []);
+  const pointers = useRef(new Map<number, FallbackPointer>());
+
+  // Read inside the animation loop without restarting it
+  const settings = useRef({ mode, configOverrides });
+  useEffect(() => { settings.current = { mode, configOverrides }; }, [mode, configOverrides]);
+
+  const setCanvas = (element: HTMLCanvasElement | null) => {
+    canvas.current = element;
+    if (typeof ref === 'function') ref(element);
+    else if (ref) ref.current = element;
+  };
+
+  useEffect(() => {
+    const handleMove = (e: PointerEvent) => {
+      const p = pointers.current.get(e.pointerId);
+      if (!p) {
+        pointers.current.set(e.pointerId, { x: e.clientX, y: e.clientY, dx: 0, dy: 0, moved: false, seed: Math.random() });
+        return;
+      }
+      p.dx += e.clientX - p.x;
+      p.dy += e.clientY - p.y;
+      p.x = e.clientX;
+      p.y = e.clientY;
+      p.moved = true;
+    };
+    const handleUp = (e: PointerEvent) => {
+      if (e.pointerType === 'mouse') return;
+      pointers.current.delete(e.pointerId);
+      audioService.releaseVoice(e.pointerId);
+    };
+
+    window.addEventListener('pointermove', handleMove);
+    window.addEventListener('pointerup', handleUp);
+    window.addEventListener('pointercancel', handleUp);
+    return () => {
+      window.removeEventListener('pointermove', handleMove);
+      window.removeEventListener('pointerup', handleUp);
+      window.removeEventListener('pointercancel', handleUp);
+      audioService.releaseAllVoices();
+    };
+  }, []);
+
+  useEffect(() => {
+    const n = solver.resolution;
+    const grid = document.createElement('canvas');
+    grid.width = n;
+    grid.height = n;
+    const gridContext = grid.getContext('2d')!;
+    const image = gridContext.createImageData(n, n);
+    const startedAt = performance.now();
+    let frame = 0;
+
+    const tick = () => {
+      frame = requestAnimationFrame(tick);
+      const target = canvas.current;
+      const context = target?.getContext('2d');
+      if (!target || !context) return;
+
+      const width = target.clientWidth;
+      const height = target.clientHeight;
+      if (target.width !== width || target.height !== height) {
+        target.width = width;
+        target.height = height;
+      }
+
+      const { mode, configOverrides } = settings.current;
+      const sim = resolveSimulationConfig(mode, configOverrides);
+      const descriptor = modeRegistry.get(mode);
+      const time = (performance.now() - startedAt) / 1000;
+
+      pointers.current.forEach((p, id) => {
+        const velocityMag = p.moved ? Math.hypot(p.dx, p.dy) : 0;
+        audioService.updateVoice(id, p.x / width, 1.0 - p.y / height, Math.min(velocityMag / 20, 1));
+        if (!p.moved) return;
+        const color = descriptor.palette({ time, random: Math.random(), seed: p.seed, source: 'pointer' });
+        const radius = sim.radius + Math.min(velocityMag, 100) * 0.00005;
+        solver.splat(p.x / width, 1.0 - p.y / height, p.dx * 5.0, -p.dy * 5.0, color, radius, width / height);
+        p.moved = false;
+        p.dx = 0;
+        p.dy = 0;
+      });
+      audioService.update();
+
+      solver.step(sim);
+
+      // Same tone mapping and gamma as DISPLAY_SHADER; rows are flipped because the grid is y-up
+      const { dye } = solver;
+      for (let j = 0; j < n; j++) {
+        for (let i = 0; i < n; i++) {
+          const cell = (j * n + i) * 3;
+          const pixel = ((n - 1 - j) * n + i) * 4;
+          for (let c = 0; c < 3; c++) {
+            const value = Math.max(0, dye[cell + c]);
+            image.data[pixel + c] = Math.pow(value / (value + 1), 1 / 2.2) * 255;
+          }
+          image.data[pixel + 3] = 255;
+        }
+      }
+      gridContext.putImageData(image, 0, 0);
+      context.imageSmoothingEnabled = true;
+      context.drawImage(grid, 0, 0, width, height);
+    };
+
+    frame = requestAnimationFrame(tick);
+    return () => cancelAnimationFrame(frame);
+  }, [solver]);
+
+  return <canvas ref={setCanvas} className="block w-full h-full" />;
+});
+
+export default FluidCanvas2D;
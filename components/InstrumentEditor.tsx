@@ -0,0 +1,227 @@
+import React, { useState } from 'react';
+import { Download, Plus, Save, Trash2, Upload, X } from 'lucide-react';
+import {
+  createInstrumentId,
+  FILTER_TYPES,
+  INSTRUMENT_RANGES,
+  MAX_OSCILLATORS,
+  OSCILLATOR_RANGES,
+  OSCILLATOR_TYPES,
+  parseInstrumentFile,
+  serializeInstrument
+} from '../services/instrumentRegistry';
+import { CustomInstrumentDefinition, InstrumentConfig, OscillatorConfig } from '../types';
+import { downloadBlob } from '../utils/download';
+
+const sliderClass = "w-full h-1 bg-white/20 rounded-lg appearance-none cursor-pointer [&::-webkit-slider-thumb]:appearance-none [&::-webkit-slider-thumb]:w-3 [&::-webkit-slider-thumb]:h-3 [&::-webkit-slider-thumb]:bg-white [&::-webkit-slider-thumb]:rounded-full hover:[&::-webkit-slider-thumb]:scale-125 transition-all";
+const fieldClass = "w-full px-2 py-1 bg-white/5 border border-white/10 rounded-full text-[10px] tabular-nums outline-none focus:border-white/30";
+
+type PatchSection = keyof typeof INSTRUMENT_RANGES;
+
+const PATCH_FIELDS: { section: PatchSection; key: string; label: string; step: number; unit?: string }[] = [
+  { section: 'filter', key: 'baseFreq', label: 'Cutoff', step: 10, unit: 'Hz' },
+  { section: 'filter', key: 'modFreq', label: 'Cutoff Mod', step: 10, unit: 'Hz' },
+  { section: 'filter', key: 'Q', label: 'Resonance', step: 0.1 },
+  { section: 'gain', key: 'base', label: 'Level', step: 0.01 },
+  { section: 'gain', key: 'mod', label: 'Velocity', step: 0.01 },
+  { section: 'gain', key: 'attack', label: 'Attack', step: 0.01, unit: 's' },
+  { section: 'gain', key: 'release', label: 'Release', step: 0.05, unit: 's' },
+  { section: 'delay', key: 'time', label: 'Time', step: 0.01, unit: 's' },
+  { section: 'delay', key: 'feedback', label: 'Feedback', step: 0.01 },
+  { section: 'delay', key: 'mix', label: 'Mix', step: 0.01 },
+];
+
+const SECTION_LABELS: Record<PatchSection, string> = { filter: 'Filter', gain: 'Envelope', delay: 'Delay' };
+
+const clamp = (value: number, { min, max }: { min: number; max: number }) => Math.min(max, Math.max(min, value));
+
+interface InstrumentEditorProps {
+  initial?: CustomInstrumentDefinition;
+  base: InstrumentConfig; // Starting point for a new instrument, usually the one playing
+  baseLabel: string;
+  onSave: (definition: CustomInstrumentDefinition) => void;
+  onDelete?: (id: string) => void;
+  onClose: () => void;
+}
+
+const InstrumentEditor = ({ initial, base, baseLabel, onSave, onDelete, onClose }: InstrumentEditorProps) => {
+  const [definition, setDefinition] = useState<CustomInstrumentDefinition>(() => initial ?? { id: createInstrumentId(), label: baseLabel, ...base });
+  const [error, setError] = useState<string | null>(null);
+
+  const chipClass = (active: boolean) =>
+    `flex-1 py-1.5 rounded-full text-[10px] font-bold tracking-wider uppercase transition-all ${active ? 'bg-white text-black' : 'bg-white/10 text-white/50 hover:text-white'}`;
+
+  const setOscillator = (index: number, patch: Partial<OscillatorConfig>) => {
+    setDefinition({ ...definition, oscillators: definition.oscillators.map((o, i) => i === index ? { ...o, ...patch } : o) });
+  };
+
+  const addOscillator = () => {
+    if (definition.oscillators.length >= MAX_OSCILLATORS) return;
+    setDefinition({ ...definition, oscillators: [...definition.oscillators, definition.oscillators[definition.oscillators.length - 1]] });
+  };
+
+  const removeOscillator = (index: number) => {
+    if (definition.oscillators.length <= 1) return;
+    setDefinition({ ...definition, oscillators: definition.oscillators.filter((_, i) => i !== index) });
+  };
+
+  const setField = (section: PatchSection, key: string, value: number) => {
+    setDefinition({ ...definition, [section]: { ...definition[section], [key]: value } });
+  };
+
+  const save = () => {
+    try {
+      onSave({ ...definition, label: definition.label.trim() || 'Custom' });
+    } catch (e) {
+      setError(e instanceof Error ? e.message : "Could not save instrument");
+    }
+  };
+
+  const exportPatch = () => {
+    const blob = new Blob([serializeInstrument(definition)], { type: 'application/json' });
+    downloadBlob(blob, `flux-instrument-${definition.label.trim().toLowerCase().replace(/[^a-z0-9]+/g, '-') || 'custom'}.json`);
+  };
+
+  // Loads into the editor only; nothing is stored until Save
+  const importPatch = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    try {
+      setDefinition(parseInstrumentFile(await file.text()));
+      setError(null);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Could not load instrument");
+    }
+  };
+
+  return (
+    <div className="w-72 p-4 bg-black/40 border border-white/10 rounded-2xl backdrop-blur-md shadow-lg animate-in fade-in zoom-in duration-300">
+      <div className="flex items-center justify-between mb-3">
+        <span className="text-[10px] font-bold tracking-wider uppercase text-white/70">Instrument Editor</span>
+        <button onClick={onClose} className="text-white/50 hover:text-white transition-colors">
+          <X size={12} />
+        </button>
+      </div>
+
+      <div className="flex flex-col gap-3 max-h-[60vh] overflow-y-auto">
+        <input
+          type="text"
+          value={definition.label}
+          maxLength={16}
+          onChange={(e) => setDefinition({ ...definition, label: e.target.value })}
+          className="w-full px-3 py-1.5 bg-white/5 border border-white/10 rounded-full text-xs tracking-wide outline-none focus:border-white/30"
+        />
+
+        {/* Oscillators: waveform, scale degree, octave and detune in cents */}
+        <div className="flex flex-col gap-1">
+          <div className="grid grid-cols-[1fr_2.5rem_2.5rem_3rem_0.75rem] gap-1 text-[10px] tracking-wide text-white/50">
+            <span>Wave</span><span>Deg</span><span>Oct</span><span>Cents</span><span />
+          </div>
+          {definition.oscillators.map((osc, i) => (
+            <div key={i} className="grid grid-cols-[1fr_2.5rem_2.5rem_3rem_0.75rem] gap-1 items-center">
+              <select
+                value={osc.type}
+                onChange={(e) => setOscillator(i, { type: e.target.value as OscillatorType })}
+                className={`${fieldClass} cursor-pointer`}
+              >
+                {OSCILLATOR_TYPES.map((type) => <option key={type} value={type} className="bg-black">{type}</option>)}
+              </select>
+              {(['degree', 'octave', 'detune'] as const).map((key) => (
+                <input
+                  key={key}
+                  type="number"
+                  min={OSCILLATOR_RANGES[key].min} max={OSCILLATOR_RANGES[key].max} step={1}
+                  value={osc[key]}
+                  onChange={(e) => {
+                    const value = parseInt(e.target.value, 10);
+                    if (Number.isFinite(value)) setOscillator(i, { [key]: clamp(value, OSCILLATOR_RANGES[key]) });
+                  }}
+                  className={fieldClass}
+                />
+              ))}
+              {definition.oscillators.length > 1 && (
+                <button onClick={() => removeOscillator(i)} className="text-white/50 hover:text-white transition-colors">
+                  <X size={10} />
+                </button>
+              )}
+            </div>
+          ))}
+          {definition.oscillators.length < MAX_OSCILLATORS && (
+            <button onClick={addOscillator} className="flex items-center justify-center gap-1 py-1 rounded-full bg-white/10 hover:bg-white/20 text-[10px] font-bold tracking-wider uppercase transition-colors">
+              <Plus size={10} /> Oscillator
+            </button>
+          )}
+        </div>
+
+        {/* Filter Type */}
+        <div className="flex gap-1">
+          {FILTER_TYPES.map((type) => (
+            <button
+              key={type}
+              onClick={() => setDefinition({ ...definition, filter: { ...definition.filter, type } })}
+              className={chipClass(definition.filter.type === type)}
+            >
+              {type.replace('pass', '')}
+            </button>
+          ))}
+        </div>
+
+        {(Object.keys(SECTION_LABELS) as PatchSection[]).map((section) => (
+          <div key={section} className="flex flex-col gap-2">
+            <span className="text-[10px] font-bold tracking-wider uppercase text-white/40">{SECTION_LABELS[section]}</span>
+            {PATCH_FIELDS.filter((field) => field.section === section).map((field) => {
+              const range = (INSTRUMENT_RANGES[section] as Record<string, { min: number; max: number }>)[field.key];
+              const value = (definition[section] as unknown as Record<string, number>)[field.key];
+              return (
+                <label key={field.key} className="flex flex-col gap-1">
+                  <div className="flex justify-between text-[10px] tracking-wide text-white/50">
+                    <span>{field.label}</span>
+                    <span className="tabular-nums">{value}{field.unit ?? ''}</span>
+                  </div>
+                  <input
+                    type="range" min={range.min} max={range.max} step={field.step}
+                    value={value}
+                    onChange={(e) => setField(section, field.key, parseFloat(e.target.value))}
+                    className={sliderClass}
+                  />
+                </label>
+              );
+            })}
+          </div>
+        ))}
+      </div>
+
+      {error && <p className="mt-2 text-[10px] text-red-400">{error}</p>}
+
+      <div className="flex gap-2 mt-3">
+        <button
+          onClick={save}
+          className="flex-1 flex items-center justify-center gap-2 py-1.5 rounded-full bg-white text-black text-[10px] font-bold tracking-wider uppercase"
+        >
+          <Save size={12} /> Save
+        </button>
+        <button
+          onClick={exportPatch}
+          className="flex items-center justify-center w-8 h-8 rounded-full bg-white/10 text-white hover:bg-white/20 transition-colors"
+        >
+          <Download size={12} />
+        </button>
+        <label className="flex items-center justify-center w-8 h-8 rounded-full bg-white/10 text-white hover:bg-white/20 transition-colors cursor-pointer">
+          <Upload size={12} />
+          <input type="file" accept="application/json,.json" onChange={importPatch} className="hidden" />
+        </label>
+        {initial && onDelete && (
+          <button
+            onClick={() => onDelete(initial.id)}
+            className="flex items-center justify-center w-8 h-8 rounded-full bg-white/10 text-white hover:bg-red-500/60 transition-colors"
+          >
+            <Trash2 size={12} />
+          </button>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default InstrumentEditor;
@@ -0,0 +1,161 @@
+import React from 'react';
+import { Plus, X } from 'lucide-react';
+import {
+  AUDIO_MAPPING_PRESETS,
+  AUDIO_SOURCES,
+  findMappingPreset,
+  MAX_ROUTES,
+  ROUTE_AMOUNT_RANGE,
+  VISUAL_TARGETS
+} from '../utils/audioMapping';
+import { SPECTRUM_BANDS } from '../utils/musicAnalysis';
+import { AudioRoute, AudioSource, VisualTarget } from '../types';
+
+const sliderClass = "w-full h-1 bg-white/20 rounded-lg appearance-none cursor-pointer [&::-webkit-slider-thumb]:appearance-none [&::-webkit-slider-thumb]:w-3 [&::-webkit-slider-thumb]:h-3 [&::-webkit-slider-thumb]:bg-white [&::-webkit-slider-thumb]:rounded-full hover:[&::-webkit-slider-thumb]:scale-125 transition-all";
+const fieldClass = "w-full px-2 py-1 bg-white/5 border border-white/10 rounded-full text-[10px] outline-none focus:border-white/30 cursor-pointer";
+
+// Emitter placement, in screen fractions from the bottom-left, and push direction in degrees
+const EMITTER_FIELDS: { key: 'x' | 'y' | 'direction'; label: string; max: number; step: number }[] = [
+  { key: 'x', label: 'X', max: 1, step: 0.01 },
+  { key: 'y', label: 'Y', max: 1, step: 0.01 },
+  { key: 'direction', label: 'Direction', max: 359, step: 1 },
+];
+
+interface MappingPanelProps {
+  routes: AudioRoute[];
+  onChange: (routes: AudioRoute[]) => void;
+  onClose: () => void;
+}
+
+const MappingPanel = ({ routes, onChange, onClose }: MappingPanelProps) => {
+  const activePreset = findMappingPreset(routes);
+
+  const chipClass = (active: boolean) =>
+    `px-2.5 py-1.5 rounded-full text-[10px] font-bold tracking-wider uppercase transition-all ${active ? 'bg-white text-black' : 'bg-white/10 text-white/50 hover:text-white'}`;
+
+  const setRoute = (index: number, patch: Partial<AudioRoute>) => {
+    onChange(routes.map((route, i) => {
+      if (i !== index) return route;
+      const next = { ...route, ...patch };
+      // Keep only the fields the new source and target use
+      if (next.source === 'spectrum') next.band = next.band ?? 0;
+      else delete next.band;
+      if (next.target === 'emitter') {
+        next.position = next.position ?? [0.5, 0.5];
+        next.direction = next.direction ?? 90;
+      } else {
+        delete next.position;
+        delete next.direction;
+      }
+      return next;
+    }));
+  };
+
+  const setEmitterField = (index: number, key: 'x' | 'y' | 'direction', value: number) => {
+    const [x, y] = routes[index].position ?? [0.5, 0.5];
+    if (key === 'direction') setRoute(index, { direction: value });
+    else setRoute(index, { position: key === 'x' ? [value, y] : [x, value] });
+  };
+
+  const emitterValue = (route: AudioRoute, key: 'x' | 'y' | 'direction') =>
+    key === 'direction' ? route.direction ?? 90 : (route.position ?? [0.5, 0.5])[key === 'x' ? 0 : 1];
+
+  const addRoute = () => {
+    if (routes.length >= MAX_ROUTES) return;
+    onChange([...routes, { source: 'level', target: 'hue', amount: 0.2 }]);
+  };
+
+  return (
+    <div className="w-72 p-4 bg-black/40 border border-white/10 rounded-2xl backdrop-blur-md shadow-lg animate-in fade-in zoom-in duration-300">
+      <div className="flex items-center justify-between mb-3">
+        <span className="text-[10px] font-bold tracking-wider uppercase text-white/70">Audio Mapping</span>
+        <button onClick={onClose} className="text-white/50 hover:text-white transition-colors">
+          <X size={12} />
+        </button>
+      </div>
+
+      {/* Presets */}
+      <div className="flex flex-wrap gap-1 mb-3">
+        {AUDIO_MAPPING_PRESETS.map((preset) => (
+          <button key={preset.id} onClick={() => onChange(preset.routes)} className={chipClass(activePreset?.id === preset.id)}>
+            {preset.label}
+          </button>
+        ))}
+      </div>
+
+      {/* Routes: source, target and amount, plus placement for emitters */}
+      <div className="flex flex-col gap-3 max-h-[50vh] overflow-y-auto">
+        {routes.map((route, i) => (
+          <div key={i} className="flex flex-col gap-1.5 pb-3 border-b border-white/10 last:border-0 last:pb-0">
+            <div className="flex items-center gap-1">
+              <select
+                value={route.source}
+                onChange={(e) => setRoute(i, { source: e.target.value as AudioSource })}
+                className={fieldClass}
+              >
+                {AUDIO_SOURCES.map((s) => <option key={s.id} value={s.id} className="bg-black">{s.label}</option>)}
+              </select>
+              {route.source === 'spectrum' && (
+                <select
+                  value={route.band ?? 0}
+                  onChange={(e) => setRoute(i, { band: parseInt(e.target.value, 10) })}
+                  className={`${fieldClass} w-12 shrink-0`}
+                >
+                  {Array.from({ length: SPECTRUM_BANDS }, (_, band) => <option key={band} value={band} className="bg-black">{band + 1}</option>)}
+                </select>
+              )}
+              <span className="text-[10px] text-white/40">&rarr;</span>
+              <select
+                value={route.target}
+                onChange={(e) => setRoute(i, { target: e.target.value as VisualTarget })}
+                className={fieldClass}
+              >
+                {VISUAL_TARGETS.map((t) => <option key={t.id} value={t.id} className="bg-black">{t.label}</option>)}
+              </select>
+              <button onClick={() => onChange(routes.filter((_, j) => j !== i))} className="text-white/50 hover:text-white transition-colors">
+                <X size={10} />
+              </button>
+            </div>
+
+            <label className="flex flex-col gap-1">
+              <div className="flex justify-between text-[10px] tracking-wide text-white/50">
+                <span>Amount</span>
+                <span className="tabular-nums">{route.amount.toFixed(2)}</span>
+              </div>
+              <input
+                type="range" min={ROUTE_AMOUNT_RANGE.min} max={ROUTE_AMOUNT_RANGE.max} step={0.01}
+                value={route.amount}
+                onChange={(e) => setRoute(i, { amount: parseFloat(e.target.value) })}
+                className={sliderClass}
+              />
+            </label>
+
+            {route.target === 'emitter' && EMITTER_FIELDS.map((field) => (
+              <label key={field.key} className="flex flex-col gap-1">
+                <div className="flex justify-between text-[10px] tracking-wide text-white/50">
+                  <span>{field.label}</span>
+                  <span className="tabular-nums">{field.key === 'direction' ? `${Math.round(emitterValue(route, field.key))}°` : emitterValue(route, field.key).toFixed(2)}</span>
+                </div>
+                <input
+                  type="range" min={0} max={field.max} step={field.step}
+                  value={emitterValue(route, field.key)}
+                  onChange={(e) => setEmitterField(i, field.key, parseFloat(e.target.value))}
+                  className={sliderClass}
+                />
+              </label>
+            ))}
+          </div>
+        ))}
+        {routes.length === 0 && <p className="text-[10px] text-white/40">Nothing reacts to the music. Pick a preset or add a route.</p>}
+      </div>
+
+      {routes.length < MAX_ROUTES && (
+        <button onClick={addRoute} className="w-full flex items-center justify-center gap-1 mt-3 py-1 rounded-full bg-white/10 hover:bg-white/20 text-[10px] font-bold tracking-wider uppercase transition-colors">
+          <Plus size={10} /> Route
+        </button>
+      )}
+    </div>
+  );
+};
+
+export default MappingPanel;
@@ -0,0 +1,252 @@
+import React, { useState } from 'react';
+import { Plus, Save, Trash2, X } from 'lucide-react';
+import { DEFAULT_PARTICLES, DEFAULT_POST_PROCESSING, DEFAULT_SIMULATION_CONFIG, PARTICLE_COUNTS } from '../constants';
+import { BoundaryMode, CustomModeDefinition, NumericSimulationKey, ParticleConfig } from '../types';
+import { BOUNDARY_OPTIONS } from './PhysicsPanel';
+
+const MIN_STOPS = 2;
+const MAX_STOPS = 6;
+
+const sliderClass = "w-full h-1 bg-white/20 rounded-lg appearance-none cursor-pointer [&::-webkit-slider-thumb]:appearance-none [&::-webkit-slider-thumb]:w-3 [&::-webkit-slider-thumb]:h-3 [&::-webkit-slider-thumb]:bg-white [&::-webkit-slider-thumb]:rounded-full hover:[&::-webkit-slider-thumb]:scale-125 transition-all";
+
+const SIMULATION_FIELDS: { key: NumericSimulationKey; label: string; min: number; max: number; step: number }[] = [
+  { key: 'curl', label: 'Curl', min: 0, max: 80, step: 1 },
+  { key: 'densityDissipation', label: 'Dye Fade', min: 0.8, max: 1, step: 0.005 },
+  { key: 'velocityDissipation', label: 'Velocity Fade', min: 0.8, max: 1, step: 0.005 },
+  { key: 'radius', label: 'Splat Radius', min: 0.0002, max: 0.01, step: 0.0002 },
+  { key: 'buoyancy', label: 'Buoyancy', min: 0, max: 400, step: 5 },
+  { key: 'heat', label: 'Splat Heat', min: 0, max: 2, step: 0.05 },
+];
+
+const createDefinition = (): CustomModeDefinition => ({
+  id: `custom-${Date.now().toString(36)}`,
+  label: 'Custom',
+  colors: ['#ff3366', '#33ccff', '#ffee55'],
+  cycleSpeed: 0.1,
+  simulation: {},
+  postProcessing: {},
+});
+
+interface PaletteEditorProps {
+  initial?: CustomModeDefinition;
+  onSave: (definition: CustomModeDefinition) => void;
+  onDelete?: (id: string) => void;
+  onClose: () => void;
+}
+
+const PaletteEditor = ({ initial, onSave, onDelete, onClose }: PaletteEditorProps) => {
+  const [definition, setDefinition] = useState<CustomModeDefinition>(() => initial ?? createDefinition());
+
+  const setColor = (index: number, color: string) => {
+    setDefinition({ ...definition, colors: definition.colors.map((c, i) => i === index ? color : c) });
+  };
+
+  const addColor = () => {
+    if (definition.colors.length >= MAX_STOPS) return;
+    setDefinition({ ...definition, colors: [...definition.colors, definition.colors[definition.colors.length - 1]] });
+  };
+
+  const removeColor = (index: number) => {
+    if (definition.colors.length <= MIN_STOPS) return;
+    setDefinition({ ...definition, colors: definition.colors.filter((_, i) => i !== index) });
+  };
+
+  const setSimulation = (key: NumericSimulationKey, value: number) => {
+    setDefinition({ ...definition, simulation: { ...definition.simulation, [key]: value } });
+  };
+
+  const setBoundary = (boundary: BoundaryMode) => {
+    setDefinition({ ...definition, simulation: { ...definition.simulation, boundary } });
+  };
+
+  const toggleEffect = (key: 'bloom' | 'sunrays') => {
+    const current = definition.postProcessing[key] ?? DEFAULT_POST_PROCESSING[key];
+    setDefinition({ ...definition, postProcessing: { ...definition.postProcessing, [key]: !current } });
+  };
+
+  const particles: ParticleConfig = { ...DEFAULT_PARTICLES, ...definition.particles };
+  const setParticles = (patch: Partial<ParticleConfig>) => {
+    setDefinition({ ...definition, particles: { ...definition.particles, ...patch } });
+  };
+
+  return (
+    <div className="w-72 p-4 bg-black/40 border border-white/10 rounded-2xl backdrop-blur-md shadow-lg animate-in fade-in zoom-in duration-300">
+      <div className="flex items-center justify-between mb-3">
+        <span className="text-[10px] font-bold tracking-wider uppercase text-white/70">Palette Editor</span>
+        <button onClick={onClose} className="text-white/50 hover:text-white transition-colors">
+          <X size={12} />
+        </button>
+      </div>
+
+      <div className="flex flex-col gap-3">
+        <input
+          type="text"
+          value={definition.label}
+          maxLength={16}
+          onChange={(e) => setDefinition({ ...definition, label: e.target.value })}
+          className="w-full px-3 py-1.5 bg-white/5 border border-white/10 rounded-full text-xs tracking-wide outline-none focus:border-white/30"
+        />
+
+        {/* Colour Stops */}
+        <div className="flex items-center gap-2">
+          {definition.colors.map((color, i) => (
+            <div key={i} className="relative group">
+              <input
+                type="color"
+                value={color}
+                onChange={(e) => setColor(i, e.target.value)}
+                className="w-7 h-7 rounded-full border border-white/20 bg-transparent cursor-pointer overflow-hidden"
+              />
+              {definition.colors.length > MIN_STOPS && (
+                <button
+                  onClick={() => removeColor(i)}
+                  className="absolute -top-1 -right-1 hidden group-hover:flex items-center justify-center w-3.5 h-3.5 rounded-full bg-black text-white/70"
+                >
+                  <X size={8} />
+                </button>
+              )}
+            </div>
+          ))}
+          {definition.colors.length < MAX_STOPS && (
+            <button onClick={addColor} className="flex items-center justify-center w-7 h-7 rounded-full bg-white/10 hover:bg-white/20 transition-colors">
+              <Plus size={12} />
+            </button>
+          )}
+        </div>
+
+        <label className="flex flex-col gap-1">
+          <div className="flex justify-between text-[10px] tracking-wide text-white/50">
+            <span>Cycle Speed</span>
+            <span className="tabular-nums">{definition.cycleSpeed.toFixed(2)}</span>
+          </div>
+          <input
+            type="range" min={0} max={1} step={0.01}
+            value={definition.cycleSpeed}
+            onChange={(e) => setDefinition({ ...definition, cycleSpeed: parseFloat(e.target.value) })}
+            className={sliderClass}
+          />
+        </label>
+
+        {SIMULATION_FIELDS.map((field) => {
+          const value = definition.simulation[field.key] ?? DEFAULT_SIMULATION_CONFIG[field.key];
+          return (
+            <label key={field.key} className="flex flex-col gap-1">
+              <div className="flex justify-between text-[10px] tracking-wide text-white/50">
+                <span>{field.label}</span>
+                <span className="tabular-nums">{value}</span>
+              </div>
+              <input
+                type="range" min={field.min} max={field.max} step={field.step}
+                value={value}
+                onChange={(e) => setSimulation(field.key, parseFloat(e.target.value))}
+                className={sliderClass}
+              />
+            </label>
+          );
+        })}
+
+        {/* Edges */}
+        <div className="flex gap-1">
+          {BOUNDARY_OPTIONS.map((option) => {
+            const active = (definition.simulation.boundary ?? DEFAULT_SIMULATION_CONFIG.boundary) === option.id;
+            return (
+              <button
+                key={option.id}
+                onClick={() => setBoundary(option.id)}
+                className={`flex-1 py-1.5 rounded-full text-[10px] font-bold tracking-wider uppercase transition-all ${active ? 'bg-white text-black' : 'bg-white/10 text-white/50 hover:text-white'}`}
+              >
+                {option.label}
+              </button>
+            );
+          })}
+        </div>
+
+        {/* Display Effects */}
+        <div className="flex gap-2">
+          {(['bloom', 'sunrays'] as const).map((key) => {
+            const enabled = definition.postProcessing[key] ?? DEFAULT_POST_PROCESSING[key];
+            return (
+              <button
+                key={key}
+                onClick={() => toggleEffect(key)}
+                className={`flex-1 py-1.5 rounded-full text-[10px] font-bold tracking-wider uppercase transition-all ${enabled ? 'bg-white text-black' : 'bg-white/10 text-white/50 hover:text-white'}`}
+              >
+                {key}
+              </button>
+            );
+          })}
+          <button
+            onClick={() => setParticles({ enabled: !particles.enabled })}
+            className={`flex-1 py-1.5 rounded-full text-[10px] font-bold tracking-wider uppercase transition-all ${particles.enabled ? 'bg-white text-black' : 'bg-white/10 text-white/50 hover:text-white'}`}
+          >
+            particles
+          </button>
+        </div>
+
+        {/* Tracer Particles */}
+        {particles.enabled && (
+          <>
+            <div className="flex gap-1">
+              {PARTICLE_COUNTS.map((count) => (
+                <button
+                  key={count}
+                  onClick={() => setParticles({ count })}
+                  className={`flex-1 py-1.5 rounded-full text-[10px] font-bold tracking-wider uppercase transition-all ${particles.count === count ? 'bg-white text-black' : 'bg-white/10 text-white/50 hover:text-white'}`}
+                >
+                  {count / 1024}K
+                </button>
+              ))}
+            </div>
+
+            <label className="flex flex-col gap-1">
+              <div className="flex justify-between text-[10px] tracking-wide text-white/50">
+                <span>Particle Life</span>
+                <span className="tabular-nums">{particles.lifetime.toFixed(1)}s</span>
+              </div>
+              <input
+                type="range" min={0.5} max={10} step={0.5}
+                value={particles.lifetime}
+                onChange={(e) => setParticles({ lifetime: parseFloat(e.target.value) })}
+                className={sliderClass}
+              />
+            </label>
+
+            <div className="flex gap-2">
+              <button
+                onClick={() => setParticles({ colorBySpeed: !particles.colorBySpeed })}
+                className={`flex-1 py-1.5 rounded-full text-[10px] font-bold tracking-wider uppercase transition-all ${particles.colorBySpeed ? 'bg-white text-black' : 'bg-white/10 text-white/50 hover:text-white'}`}
+              >
+                Speed Tint
+              </button>
+              <button
+                onClick={() => setParticles({ respawn: particles.respawn === 'dye' ? 'uniform' : 'dye' })}
+                className={`flex-1 py-1.5 rounded-full text-[10px] font-bold tracking-wider uppercase transition-all ${particles.respawn === 'dye' ? 'bg-white text-black' : 'bg-white/10 text-white/50 hover:text-white'}`}
+              >
+                Spawn on Dye
+              </button>
+            </div>
+          </>
+        )}
+
+        <div className="flex gap-2 mt-1">
+          <button
+            onClick={() => onSave({ ...definition, label: definition.label.trim() || 'Custom' })}
+            className="flex-1 flex items-center justify-center gap-2 py-1.5 rounded-full bg-white text-black text-[10px] font-bold tracking-wider uppercase"
+          >
+            <Save size={12} /> Save
+          </button>
+          {initial && onDelete && (
+            <button
+              onClick={() => onDelete(initial.id)}
+              className="flex items-center justify-center w-8 h-8 rounded-full bg-white/10 text-white hover:bg-red-500/60 transition-colors"
+            >
+              <Trash2 size={12} />
+            </button>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default PaletteEditor;
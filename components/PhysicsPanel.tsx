@@ -0,0 +1,132 @@
+import React from 'react';
+import { RotateCcw } from 'lucide-react';
+import { PHYSICS_FIELDS } from '../constants';
+import { AdvectionScheme, BoundaryMode, PressureSolver, SimulationConfig, SolverBackend } from '../types';
+
+export const BOUNDARY_OPTIONS: { id: BoundaryMode; label: string }[] = [
+  { id: 'noSlip', label: 'Walls' },
+  { id: 'freeSlip', label: 'Slip' },
+  { id: 'periodic', label: 'Wrap' },
+  { id: 'open', label: 'Open' },
+];
+
+export const ADVECTION_OPTIONS: { id: AdvectionScheme; label: string }[] = [
+  { id: 'semiLagrangian', label: 'Basic' },
+  { id: 'macCormack', label: 'MacC.' },
+  { id: 'bfecc', label: 'BFECC' },
+];
+
+export const PRESSURE_SOLVER_OPTIONS: { id: PressureSolver; label: string }[] = [
+  { id: 'jacobi', label: 'Jacobi' },
+  { id: 'multigrid', label: 'Multigrid' },
+];
+
+// Trim slider readouts to the precision of their step
+const formatValue = (value: number, step: number) => {
+  const decimals = Math.max(0, Math.ceil(-Math.log10(step)));
+  return value.toFixed(decimals);
+};
+
+interface PhysicsPanelProps {
+  config: SimulationConfig;
+  overrides: Partial<SimulationConfig>;
+  onChange: (overrides: Partial<SimulationConfig>) => void;
+  backend: SolverBackend;
+  onBackendChange: (backend: SolverBackend) => void;
+  gpuAvailable: boolean;
+}
+
+const PhysicsPanel = ({ config, overrides, onChange, backend, onBackendChange, gpuAvailable }: PhysicsPanelProps) => {
+  const hasOverrides = Object.keys(overrides).length > 0;
+  const chipClass = (active: boolean) =>
+    `flex-1 py-1.5 rounded-full text-[10px] font-bold tracking-wider uppercase transition-all disabled:opacity-30 ${active ? 'bg-white text-black' : 'bg-white/10 text-white/50 hover:text-white'}`;
+
+  return (
+    <div className="w-64 p-4 bg-black/40 border border-white/10 rounded-2xl backdrop-blur-md shadow-lg animate-in fade-in zoom-in duration-300">
+      <div className="flex items-center justify-between mb-3">
+        <span className="text-[10px] font-bold tracking-wider uppercase text-white/70">Physics</span>
+        <button
+          onClick={() => onChange({})}
+          disabled={!hasOverrides}
+          className="flex items-center gap-1 text-[10px] tracking-wider uppercase text-white/50 hover:text-white disabled:opacity-30 disabled:hover:text-white/50 transition-colors"
+        >
+          <RotateCcw size={10} /> Mode Defaults
+        </button>
+      </div>
+
+      <div className="flex gap-1 mb-3">
+        <button disabled={!gpuAvailable} onClick={() => onBackendChange('gpu')} className={chipClass(backend === 'gpu')}>
+          GPU
+        </button>
+        <button onClick={() => onBackendChange('cpu')} className={chipClass(backend === 'cpu')}>
+          CPU
+        </button>
+      </div>
+
+      <div className="flex gap-1 mb-3">
+        {BOUNDARY_OPTIONS.map((option) => (
+          <button
+            key={option.id}
+            onClick={() => onChange({ ...overrides, boundary: option.id })}
+            className={`${chipClass(config.boundary === option.id)} ${overrides.boundary !== undefined ? '' : 'opacity-70'}`}
+          >
+            {option.label}
+          </button>
+        ))}
+      </div>
+
+      <div className="flex items-center gap-1 mb-3">
+        <span className="w-14 text-[10px] tracking-wide text-white/50">Pressure</span>
+        {PRESSURE_SOLVER_OPTIONS.map((option) => (
+          <button
+            key={option.id}
+            onClick={() => onChange({ ...overrides, pressureSolver: option.id })}
+            className={`${chipClass(config.pressureSolver === option.id)} ${overrides.pressureSolver !== undefined ? '' : 'opacity-70'}`}
+          >
+            {option.label}
+          </button>
+        ))}
+      </div>
+
+      {(['velocityAdvection', 'densityAdvection'] as const).map((key) => (
+        <div key={key} className="flex items-center gap-1 mb-3">
+          <span className="w-14 text-[10px] tracking-wide text-white/50">{key === 'velocityAdvection' ? 'Velocity' : 'Dye'}</span>
+          {ADVECTION_OPTIONS.map((option) => (
+            <button
+              key={option.id}
+              onClick={() => onChange({ ...overrides, [key]: option.id })}
+              className={`${chipClass(config[key] === option.id)} ${overrides[key] !== undefined ? '' : 'opacity-70'}`}
+            >
+              {option.label}
+            </button>
+          ))}
+        </div>
+      ))}
+
+      <div className="flex flex-col gap-3">
+        {PHYSICS_FIELDS.map((field) => {
+          const isOverridden = overrides[field.key] !== undefined;
+          return (
+            <label key={field.key} className="flex flex-col gap-1">
+              <div className="flex justify-between text-[10px] tracking-wide">
+                <span className={isOverridden ? 'text-white' : 'text-white/50'}>{field.label}</span>
+                <span className="text-white/50 tabular-nums">{formatValue(config[field.key], field.step)}</span>
+              </div>
+              <input
+                type="range"
+                min={field.min}
+                max={field.max}
+                step={field.step}
+                value={config[field.key]}
+                onChange={(e) => onChange({ ...overrides, [field.key]: parseFloat(e.target.value) })}
+                className="w-full h-1 bg-white/20 rounded-lg appearance-none cursor-pointer [&::-webkit-slider-thumb]:appearance-none [&::-webkit-slider-thumb]:w-3 [&::-webkit-slider-thumb]:h-3 [&::-webkit-slider-thumb]:bg-white [&::-webkit-slider-thumb]:rounded-full hover:[&::-webkit-slider-thumb]:scale-125 transition-all"
+              />
+            </label>
+          );
+        })}
+      </div>
+    </div>
+  );
+};
+
+export default PhysicsPanel;
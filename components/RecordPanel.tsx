@@ -0,0 +1,70 @@
+import React from 'react';
+import { Circle, Square } from 'lucide-react';
+import { VideoRecordingOptions } from '../services/videoRecorder';
+
+const FRAME_RATES = [24, 30, 60];
+const BITRATES = [
+  { label: '2.5M', value: 2_500_000 },
+  { label: '5M', value: 5_000_000 },
+  { label: '8M', value: 8_000_000 },
+  { label: '16M', value: 16_000_000 },
+];
+
+export const formatDuration = (seconds: number) => {
+  const whole = Math.floor(seconds);
+  return `${Math.floor(whole / 60)}:${String(whole % 60).padStart(2, '0')}`;
+};
+
+interface RecordPanelProps {
+  options: VideoRecordingOptions;
+  onOptionsChange: (options: VideoRecordingOptions) => void;
+  isRecording: boolean;
+  elapsed: number;
+  supported: boolean;
+  onToggle: () => void;
+}
+
+const RecordPanel = ({ options, onOptionsChange, isRecording, elapsed, supported, onToggle }: RecordPanelProps) => {
+  const chipClass = (active: boolean) =>
+    `flex-1 py-1.5 rounded-full text-[10px] font-bold tracking-wider uppercase transition-all disabled:opacity-30 ${active ? 'bg-white text-black' : 'bg-white/10 text-white/50 hover:text-white'}`;
+
+  return (
+    <div className="w-64 p-4 bg-black/40 border border-white/10 rounded-2xl backdrop-blur-md shadow-lg animate-in fade-in zoom-in duration-300">
+      <div className="flex items-center justify-between mb-3">
+        <span className="text-[10px] font-bold tracking-wider uppercase text-white/70">Record</span>
+        <span className={`text-[10px] tabular-nums ${isRecording ? 'text-red-400' : 'text-white/50'}`}>{formatDuration(elapsed)}</span>
+      </div>
+
+      {!supported ? (
+        <p className="text-[10px] text-white/50 tracking-wide">Video recording is not supported in this browser.</p>
+      ) : (
+        <div className="flex flex-col gap-2">
+          <div className="flex gap-1">
+            {FRAME_RATES.map((fps) => (
+              <button key={fps} disabled={isRecording} onClick={() => onOptionsChange({ ...options, fps })} className={chipClass(options.fps === fps)}>
+                {fps} fps
+              </button>
+            ))}
+          </div>
+
+          <div className="flex gap-1">
+            {BITRATES.map((b) => (
+              <button key={b.value} disabled={isRecording} onClick={() => onOptionsChange({ ...options, bitrate: b.value })} className={chipClass(options.bitrate === b.value)}>
+                {b.label}
+              </button>
+            ))}
+          </div>
+
+          <button
+            onClick={onToggle}
+            className={`flex items-center justify-center gap-2 mt-1 py-1.5 rounded-full text-[10px] font-bold tracking-wider uppercase transition-all ${isRecording ? 'bg-red-500 text-white' : 'bg-white text-black'}`}
+          >
+            {isRecording ? <><Square size={10} fill="currentColor" /> Stop &amp; Save</> : <><Circle size={10} fill="currentColor" className="text-red-500" /> Record WebM</>}
+          </button>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default RecordPanel;
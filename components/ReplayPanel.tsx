@@ -0,0 +1,94 @@
+import React from 'react';
+import { Circle, Download, Play, Repeat, Square, Upload } from 'lucide-react';
+import { SessionRecording } from '../types';
+import { formatDuration } from './RecordPanel';
+
+const SPEEDS = [0.5, 1, 2];
+
+interface ReplayPanelProps {
+  recording: SessionRecording | null;
+  isRecording: boolean;
+  isReplaying: boolean;
+  speed: number;
+  loop: boolean;
+  error: string | null;
+  onToggleRecord: () => void;
+  onTogglePlay: () => void;
+  onSpeedChange: (speed: number) => void;
+  onLoopChange: (loop: boolean) => void;
+  onSave: () => void;
+  onLoad: (file: File) => void;
+}
+
+const ReplayPanel = ({
+  recording, isRecording, isReplaying, speed, loop, error,
+  onToggleRecord, onTogglePlay, onSpeedChange, onLoopChange, onSave, onLoad
+}: ReplayPanelProps) => {
+  const chipClass = (active: boolean) =>
+    `flex-1 py-1.5 rounded-full text-[10px] font-bold tracking-wider uppercase transition-all disabled:opacity-30 ${active ? 'bg-white text-black' : 'bg-white/10 text-white/50 hover:text-white'}`;
+
+  const handleFile = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (file) onLoad(file);
+    e.target.value = '';
+  };
+
+  return (
+    <div className="w-64 p-4 bg-black/40 border border-white/10 rounded-2xl backdrop-blur-md shadow-lg animate-in fade-in zoom-in duration-300">
+      <div className="flex items-center justify-between mb-3">
+        <span className="text-[10px] font-bold tracking-wider uppercase text-white/70">Session</span>
+        {recording && (
+          <span className="text-[10px] tabular-nums text-white/50">
+            {formatDuration(recording.duration / 1000)} &bull; {recording.events.length} events
+          </span>
+        )}
+      </div>
+
+      <div className="flex flex-col gap-2">
+        <button
+          onClick={onToggleRecord}
+          disabled={isReplaying}
+          className={`flex items-center justify-center gap-2 py-1.5 rounded-full text-[10px] font-bold tracking-wider uppercase transition-all disabled:opacity-30 ${isRecording ? 'bg-red-500 text-white' : 'bg-white/10 text-white hover:bg-white/20'}`}
+        >
+          {isRecording ? <><Square size={10} fill="currentColor" /> Stop Recording</> : <><Circle size={10} fill="currentColor" className="text-red-500" /> Record Input</>}
+        </button>
+
+        <div className="flex gap-1">
+          {SPEEDS.map((s) => (
+            <button key={s} onClick={() => onSpeedChange(s)} className={chipClass(speed === s)}>
+              {s}x
+            </button>
+          ))}
+          <button onClick={() => onLoopChange(!loop)} className={`${chipClass(loop)} flex items-center justify-center`}>
+            <Repeat size={12} />
+          </button>
+        </div>
+
+        <div className="flex gap-1">
+          <button
+            onClick={onTogglePlay}
+            disabled={!recording || isRecording}
+            className={`flex-1 flex items-center justify-center gap-2 py-1.5 rounded-full text-[10px] font-bold tracking-wider uppercase transition-all disabled:opacity-30 ${isReplaying ? 'bg-white/10 text-white' : 'bg-white text-black'}`}
+          >
+            {isReplaying ? <><Square size={10} fill="currentColor" /> Stop</> : <><Play size={10} fill="currentColor" /> Replay</>}
+          </button>
+          <button
+            onClick={onSave}
+            disabled={!recording}
+            className="flex items-center justify-center w-8 h-8 rounded-full bg-white/10 text-white hover:bg-white/20 transition-all disabled:opacity-30"
+          >
+            <Download size={12} />
+          </button>
+          <label className="flex items-center justify-center w-8 h-8 rounded-full bg-white/10 text-white hover:bg-white/20 transition-all cursor-pointer">
+            <Upload size={12} />
+            <input type="file" accept="application/json,.json" onChange={handleFile} className="hidden" />
+          </label>
+        </div>
+
+        {error && <p className="text-[10px] text-red-400 tracking-wide">{error}</p>}
+      </div>
+    </div>
+  );
+};
+
+export default ReplayPanel;
@@ -1,3 +1,116 @@
+import { AdvectionScheme, BoundaryMode, ParticleConfig, PhysicsField, PostProcessingConfig, PressureSolver, QualityTier, SimulationConfig, TuningConfig } from './types';
+
+// Simulation defaults shared by every mode
+export const DEFAULT_SIMULATION_CONFIG: SimulationConfig = {
+  simResolution: 256, // Physics resolution
+  dyeResolution: 1024, // Visual resolution (high quality)
+  densityDissipation: 0.97,
+  velocityDissipation: 0.99,
+  pressure: 1.0, // Fraction of last frame's pressure kept as the solver's starting guess
+  pressureIterations: 20,
+  pressureSolver: 'jacobi',
+  pressureCycles: 2,
+  pressureTolerance: 0,
+  curl: 30,
+  radius: 0.001, // Base pointer splat radius, grows with pointer speed
+  timeStep: 0.016,
+  buoyancy: 0,
+  smokeWeight: 0,
+  ambientTemperature: 0,
+  buoyancyDirection: 0,
+  heat: 0,
+  temperatureDissipation: 0.97,
+  boundary: 'freeSlip',
+  velocityAdvection: 'semiLagrangian',
+  densityAdvection: 'semiLagrangian',
+};
+
+// Post-processing applied after the density render
+export const DEFAULT_POST_PROCESSING: PostProcessingConfig = {
+  bloom: true,
+  bloomIntensity: 0.8,
+  bloomThreshold: 0.6,
+  bloomSoftKnee: 0.7,
+  bloomIterations: 8,
+  sunrays: true,
+  sunraysWeight: 1.0,
+  dithering: true,
+};
+
+// Tracer particles drawn over the dye; modes opt in with `particles: { enabled: true }`
+export const DEFAULT_PARTICLES: ParticleConfig = {
+  enabled: false,
+  count: 65536,
+  lifetime: 4,
+  size: 1.5,
+  colorBySpeed: true,
+  color: [0.4, 0.6, 1.0],
+  respawn: 'uniform',
+};
+
+// Particle counts offered by the editor; each is a power-of-two square state texture
+export const PARTICLE_COUNTS = [16384, 65536, 262144];
+
+// Instruments start out in C major with a short glide between notes
+export const DEFAULT_TUNING: TuningConfig = {
+  root: 0,
+  scale: 'major',
+  glide: 0.05,
+};
+
+// Simultaneous synth voices (one per pointer); past the limit the oldest voice is stolen
+export const DEFAULT_VOICE_LIMIT = 6;
+export const MAX_VOICE_LIMIT = 12;
+
+// Largest still capture, independent of the window size
+export const MAX_CAPTURE_SIZE = 3840;
+
+// Bloom and sunrays work on small buffers: the effects are blurry by nature
+export const BLOOM_RESOLUTION = 256;
+export const SUNRAYS_RESOLUTION = 196;
+
+// Obstacles live in their own fixed-size field so walls survive simulation resolution changes
+export const OBSTACLE_RESOLUTION = 512;
+
+// Edge behaviours in shader order: the boundary uniform in BOUNDARY_GLSL is an index into this list
+export const BOUNDARY_MODES: BoundaryMode[] = ['noSlip', 'freeSlip', 'periodic', 'open'];
+
+export const ADVECTION_SCHEMES: AdvectionScheme[] = ['semiLagrangian', 'macCormack', 'bfecc'];
+
+export const PRESSURE_SOLVERS: PressureSolver[] = ['jacobi', 'multigrid'];
+
+// Physics panel sliders; scene links clamp to the same ranges
+export const PHYSICS_FIELDS: PhysicsField[] = [
+  { key: 'simResolution', label: 'Sim Resolution', min: 32, max: 512, step: 32 },
+  { key: 'dyeResolution', label: 'Dye Resolution', min: 128, max: 2048, step: 128 },
+  { key: 'densityDissipation', label: 'Dye Fade', min: 0.8, max: 1, step: 0.005 },
+  { key: 'velocityDissipation', label: 'Velocity Fade', min: 0.8, max: 1, step: 0.005 },
+  { key: 'pressure', label: 'Pressure Keep', min: 0, max: 1, step: 0.05 },
+  { key: 'pressureIterations', label: 'Pressure Iterations', min: 1, max: 80, step: 1 },
+  { key: 'pressureCycles', label: 'Multigrid Cycles', min: 1, max: 8, step: 1 },
+  { key: 'pressureTolerance', label: 'Pressure Tolerance', min: 0, max: 0.05, step: 0.001 },
+  { key: 'curl', label: 'Curl', min: 0, max: 80, step: 1 },
+  { key: 'radius', label: 'Splat Radius', min: 0.0002, max: 0.01, step: 0.0002 },
+  { key: 'timeStep', label: 'Time Step', min: 0.004, max: 0.033, step: 0.001 },
+  { key: 'buoyancy', label: 'Buoyancy', min: 0, max: 400, step: 5 },
+  { key: 'smokeWeight', label: 'Smoke Weight', min: 0, max: 50, step: 1 },
+  { key: 'ambientTemperature', label: 'Ambient Temperature', min: -1, max: 1, step: 0.05 },
+  { key: 'buoyancyDirection', label: 'Buoyancy Direction', min: 0, max: 360, step: 5 },
+  { key: 'heat', label: 'Splat Heat', min: 0, max: 2, step: 0.05 },
+  { key: 'temperatureDissipation', label: 'Heat Fade', min: 0.8, max: 1, step: 0.005 },
+];
+
+// Grid size of the CPU fallback solver; it runs on the main thread, so it stays coarse
+export const CPU_SIM_RESOLUTION = 96;
+
+// Quality ladder walked by the adaptive governor, lowest first
+export const QUALITY_TIERS: QualityTier[] = [
+  { id: 'low', label: 'Low', simScale: 0.5, dyeScale: 0.25, iterationScale: 0.4 },
+  { id: 'medium', label: 'Medium', simScale: 0.5, dyeScale: 0.5, iterationScale: 0.6 },
+  { id: 'high', label: 'High', simScale: 1.0, dyeScale: 0.5, iterationScale: 0.8 },
+  { id: 'ultra', label: 'Ultra', simScale: 1.0, dyeScale: 1.0, iterationScale: 1.0 },
+];
+
 // Common vertex shader for full-screen quad rendering
 export const BASE_VERTEX_SHADER = `
   varying vec2 vUv;
@@ -7,21 +120,107 @@ export const BASE_VERTEX_SHADER = `
   }
 `;
 
+// Boundary handling shared by the solver shaders. Ghost values stand in for the cell across the domain edge:
+// walls mirror velocity (no-slip: both components, free-slip: the normal one) and hold pressure level,
+// periodic reads the opposite edge, and open edges let flow leave with zero pressure outside.
+const BOUNDARY_GLSL = `
+  uniform int boundary; // Index into BOUNDARY_MODES: 0 no-slip, 1 free-slip, 2 periodic, 3 open
+
+  bool isOutside(vec2 uv) {
+    return uv.x < 0.0 || uv.x > 1.0 || uv.y < 0.0 || uv.y > 1.0;
+  }
+
+  vec2 wrapUv(vec2 uv) {
+    return boundary == 2 ? fract(uv) : uv;
+  }
+
+  vec2 ghostVelocity(sampler2D field, vec2 uv, vec2 C) {
+    if (boundary == 2) return texture2D(field, fract(uv)).xy;
+    if (!isOutside(uv)) return texture2D(field, uv).xy;
+    if (boundary == 0) return -C;
+    if (boundary == 1) return (uv.x < 0.0 || uv.x > 1.0) ? vec2(-C.x, C.y) : vec2(C.x, -C.y);
+    return C;
+  }
+
+  float ghostPressure(sampler2D field, vec2 uv, float C) {
+    if (boundary == 2) return texture2D(field, fract(uv)).x;
+    if (!isOutside(uv)) return texture2D(field, uv).x;
+    return boundary == 3 ? 0.0 : C;
+  }
+`;
+
 // Advection: Moves quantities (velocity/density) along the velocity field
 export const ADVECTION_SHADER = `
   varying vec2 vUv;
   uniform sampler2D uVelocity;
   uniform sampler2D uSource;
+  uniform sampler2D uObstacles;
   uniform vec2 texelSize;
   uniform float dt;
   uniform float dissipation;
+  ${BOUNDARY_GLSL}
 
   void main() {
-    vec2 coord = vUv - dt * texture2D(uVelocity, vUv).xy * texelSize;
+    // Nothing lives inside solid cells
+    if (texture2D(uObstacles, vUv).x > 0.5) {
+      gl_FragColor = vec4(0.0);
+      return;
+    }
+    vec2 coord = wrapUv(vUv - dt * texture2D(uVelocity, vUv).xy * texelSize);
     gl_FragColor = texture2D(uSource, coord) * dissipation;
   }
 `;
 
+// Advection Correction: Final pass of MacCormack and BFECC. Both first advect forward (uForward) and then
+// back again (uBackward); the round-trip error is subtracted out, and the result is clamped to the four texels
+// the plain lookup would have blended, so the correction can sharpen but never overshoot.
+export const ADVECTION_CORRECTION_SHADER = `
+  varying vec2 vUv;
+  uniform sampler2D uVelocity;
+  uniform sampler2D uSource;
+  uniform sampler2D uForward;
+  uniform sampler2D uBackward;
+  uniform sampler2D uObstacles;
+  uniform vec2 texelSize;
+  uniform float dt;
+  uniform float dissipation;
+  uniform bool bfecc;
+  ${BOUNDARY_GLSL}
+
+  void main() {
+    if (texture2D(uObstacles, vUv).x > 0.5) {
+      gl_FragColor = vec4(0.0);
+      return;
+    }
+    vec2 coord = wrapUv(vUv - dt * texture2D(uVelocity, vUv).xy * texelSize);
+
+    // MacCormack corrects the forward result in place; BFECC corrects the source, then advects that
+    vec4 corrected = bfecc
+      ? 1.5 * texture2D(uSource, coord) - 0.5 * texture2D(uBackward, coord)
+      : texture2D(uForward, vUv) + 0.5 * (texture2D(uSource, vUv) - texture2D(uBackward, vUv));
+
+    vec2 base = (floor(coord / texelSize - 0.5) + 0.5) * texelSize;
+    vec4 a = texture2D(uSource, wrapUv(base));
+    vec4 b = texture2D(uSource, wrapUv(base + vec2(texelSize.x, 0.0)));
+    vec4 c = texture2D(uSource, wrapUv(base + vec2(0.0, texelSize.y)));
+    vec4 d = texture2D(uSource, wrapUv(base + texelSize));
+    vec4 lo = min(min(a, b), min(c, d));
+    vec4 hi = max(max(a, b), max(c, d));
+    gl_FragColor = clamp(corrected, lo, hi) * dissipation;
+  }
+`;
+
+// Clear: Scales a field towards zero (used to decay pressure between frames)
+export const CLEAR_SHADER = `
+  varying vec2 vUv;
+  uniform sampler2D uTexture;
+  uniform float value;
+
+  void main() {
+    gl_FragColor = value * texture2D(uTexture, vUv);
+  }
+`;
+
 // Splat: Adds force/color at a specific point (mouse interaction)
 export const SPLAT_SHADER = `
   varying vec2 vUv;
@@ -30,9 +229,12 @@ export const SPLAT_SHADER = `
   uniform vec3 color;
   uniform vec2 point;
   uniform float radius;
+  ${BOUNDARY_GLSL}
 
   void main() {
     vec2 p = vUv - point.xy;
+    // With periodic edges a splat near one side also reaches across to the other
+    if (boundary == 2) p -= floor(p + 0.5);
     p.x *= aspectRatio;
     vec3 splat = exp(-dot(p, p) / radius) * color;
     vec3 base = texture2D(uTarget, vUv).xyz;
@@ -40,45 +242,179 @@ export const SPLAT_SHADER = `
   }
 `;
 
+// Curl: Calculates the vorticity (rotation) of the velocity field
+export const CURL_SHADER = `
+  varying vec2 vUv;
+  uniform sampler2D uVelocity;
+  uniform vec2 texelSize;
+  ${BOUNDARY_GLSL}
+
+  void main() {
+    vec2 C = texture2D(uVelocity, vUv).xy;
+    float L = ghostVelocity(uVelocity, vUv - vec2(texelSize.x, 0.0), C).y;
+    float R = ghostVelocity(uVelocity, vUv + vec2(texelSize.x, 0.0), C).y;
+    float T = ghostVelocity(uVelocity, vUv + vec2(0.0, texelSize.y), C).x;
+    float B = ghostVelocity(uVelocity, vUv - vec2(0.0, texelSize.y), C).x;
+    float vorticity = R - L - T + B;
+    gl_FragColor = vec4(0.5 * vorticity, 0.0, 0.0, 1.0);
+  }
+`;
+
+// Vorticity Confinement: Pushes velocity back around small eddies so swirls don't fade out
+export const VORTICITY_SHADER = `
+  varying vec2 vUv;
+  uniform sampler2D uVelocity;
+  uniform sampler2D uCurl;
+  uniform vec2 texelSize;
+  uniform float curl;
+  uniform float dt;
+  ${BOUNDARY_GLSL}
+
+  void main() {
+    float L = texture2D(uCurl, wrapUv(vUv - vec2(texelSize.x, 0.0))).x;
+    float R = texture2D(uCurl, wrapUv(vUv + vec2(texelSize.x, 0.0))).x;
+    float T = texture2D(uCurl, wrapUv(vUv + vec2(0.0, texelSize.y))).x;
+    float B = texture2D(uCurl, wrapUv(vUv - vec2(0.0, texelSize.y))).x;
+    float C = texture2D(uCurl, vUv).x;
+
+    // Gradient of |curl| points towards the vortex centre
+    vec2 force = 0.5 * vec2(abs(T) - abs(B), abs(R) - abs(L));
+    force /= length(force) + 0.0001;
+    force *= curl * C;
+    force.y *= -1.0;
+
+    vec2 velocity = texture2D(uVelocity, vUv).xy;
+    velocity += force * dt;
+    velocity = clamp(velocity, -1000.0, 1000.0);
+    gl_FragColor = vec4(velocity, 0.0, 1.0);
+  }
+`;
+
 // Divergence: Calculates how much "stuff" is flowing in/out of a cell
 export const DIVERGENCE_SHADER = `
   varying vec2 vUv;
   uniform sampler2D uVelocity;
+  uniform sampler2D uObstacles;
   uniform vec2 texelSize;
+  ${BOUNDARY_GLSL}
 
   void main() {
-    float L = texture2D(uVelocity, vUv - vec2(texelSize.x, 0.0)).x;
-    float R = texture2D(uVelocity, vUv + vec2(texelSize.x, 0.0)).x;
-    float T = texture2D(uVelocity, vUv + vec2(0.0, texelSize.y)).y;
-    float B = texture2D(uVelocity, vUv - vec2(0.0, texelSize.y)).y;
+    vec2 vL = vUv - vec2(texelSize.x, 0.0);
+    vec2 vR = vUv + vec2(texelSize.x, 0.0);
+    vec2 vT = vUv + vec2(0.0, texelSize.y);
+    vec2 vB = vUv - vec2(0.0, texelSize.y);
 
     vec2 C = texture2D(uVelocity, vUv).xy;
-    if (vUv.x < 0.0) { L = -C.x; }
-    if (vUv.x > 1.0) { R = -C.x; }
-    if (vUv.y > 1.0) { T = -C.y; }
-    if (vUv.y < 0.0) { B = -C.y; }
+    float L = ghostVelocity(uVelocity, vL, C).x;
+    float R = ghostVelocity(uVelocity, vR, C).x;
+    float T = ghostVelocity(uVelocity, vT, C).y;
+    float B = ghostVelocity(uVelocity, vB, C).y;
+
+    // No-slip obstacles: the face shared with a solid cell carries no flow
+    if (texture2D(uObstacles, wrapUv(vL)).x > 0.5) { L = -C.x; }
+    if (texture2D(uObstacles, wrapUv(vR)).x > 0.5) { R = -C.x; }
+    if (texture2D(uObstacles, wrapUv(vT)).x > 0.5) { T = -C.y; }
+    if (texture2D(uObstacles, wrapUv(vB)).x > 0.5) { B = -C.y; }
 
     float div = 0.5 * (R - L + T - B);
     gl_FragColor = vec4(div, 0.0, 0.0, 1.0);
   }
 `;
 
-// Pressure: Solves the pressure field (Jacobi iteration)
+// Pressure: Solves the pressure field (Jacobi iteration). Below 1, weight damps each step towards the
+// previous value, which makes it a better smoother for multigrid
 export const PRESSURE_SHADER = `
   varying vec2 vUv;
   uniform sampler2D uPressure;
   uniform sampler2D uDivergence;
+  uniform sampler2D uObstacles;
   uniform vec2 texelSize;
+  uniform float weight;
+  ${BOUNDARY_GLSL}
 
   void main() {
-    float L = texture2D(uPressure, vUv - vec2(texelSize.x, 0.0)).x;
-    float R = texture2D(uPressure, vUv + vec2(texelSize.x, 0.0)).x;
-    float T = texture2D(uPressure, vUv + vec2(0.0, texelSize.y)).x;
-    float B = texture2D(uPressure, vUv - vec2(0.0, texelSize.y)).x;
+    vec2 vL = vUv - vec2(texelSize.x, 0.0);
+    vec2 vR = vUv + vec2(texelSize.x, 0.0);
+    vec2 vT = vUv + vec2(0.0, texelSize.y);
+    vec2 vB = vUv - vec2(0.0, texelSize.y);
+
     float C = texture2D(uPressure, vUv).x;
+    float L = ghostPressure(uPressure, vL, C);
+    float R = ghostPressure(uPressure, vR, C);
+    float T = ghostPressure(uPressure, vT, C);
+    float B = ghostPressure(uPressure, vB, C);
+
+    // Zero pressure gradient across obstacle faces
+    if (texture2D(uObstacles, wrapUv(vL)).x > 0.5) { L = C; }
+    if (texture2D(uObstacles, wrapUv(vR)).x > 0.5) { R = C; }
+    if (texture2D(uObstacles, wrapUv(vT)).x > 0.5) { T = C; }
+    if (texture2D(uObstacles, wrapUv(vB)).x > 0.5) { B = C; }
     float divergence = texture2D(uDivergence, vUv).x;
     float pressure = (L + R + B + T - divergence) * 0.25;
-    gl_FragColor = vec4(pressure, 0.0, 0.0, 1.0);
+    gl_FragColor = vec4(mix(C, pressure, weight), 0.0, 0.0, 1.0);
+  }
+`;
+
+// Residual: How far the pressure is from solving PRESSURE_SHADER's equation, with the same edge and obstacle rules.
+// x holds the residual for multigrid restriction, y its square for measuring the RMS
+export const RESIDUAL_SHADER = `
+  varying vec2 vUv;
+  uniform sampler2D uPressure;
+  uniform sampler2D uDivergence;
+  uniform sampler2D uObstacles;
+  uniform vec2 texelSize;
+  ${BOUNDARY_GLSL}
+
+  void main() {
+    vec2 vL = vUv - vec2(texelSize.x, 0.0);
+    vec2 vR = vUv + vec2(texelSize.x, 0.0);
+    vec2 vT = vUv + vec2(0.0, texelSize.y);
+    vec2 vB = vUv - vec2(0.0, texelSize.y);
+
+    float C = texture2D(uPressure, vUv).x;
+    float L = ghostPressure(uPressure, vL, C);
+    float R = ghostPressure(uPressure, vR, C);
+    float T = ghostPressure(uPressure, vT, C);
+    float B = ghostPressure(uPressure, vB, C);
+
+    if (texture2D(uObstacles, wrapUv(vL)).x > 0.5) { L = C; }
+    if (texture2D(uObstacles, wrapUv(vR)).x > 0.5) { R = C; }
+    if (texture2D(uObstacles, wrapUv(vT)).x > 0.5) { T = C; }
+    if (texture2D(uObstacles, wrapUv(vB)).x > 0.5) { B = C; }
+    float residual = texture2D(uDivergence, vUv).x - (L + R + B + T - 4.0 * C);
+    gl_FragColor = vec4(residual, residual * residual, 0.0, 1.0);
+  }
+`;
+
+// Prolongate: Adds the coarse-grid correction (bilinearly upsampled) to the finer pressure
+export const PROLONGATE_SHADER = `
+  varying vec2 vUv;
+  uniform sampler2D uPressure;
+  uniform sampler2D uCorrection;
+
+  void main() {
+    gl_FragColor = vec4(texture2D(uPressure, vUv).x + texture2D(uCorrection, vUv).x, 0.0, 0.0, 1.0);
+  }
+`;
+
+// Buoyancy: Hot cells rise and dense dye sinks along the configured up direction
+export const BUOYANCY_SHADER = `
+  varying vec2 vUv;
+  uniform sampler2D uVelocity;
+  uniform sampler2D uTemperature;
+  uniform sampler2D uDensity;
+  uniform float buoyancy;
+  uniform float weight;
+  uniform float ambient;
+  uniform vec2 direction;
+  uniform float dt;
+
+  void main() {
+    vec2 velocity = texture2D(uVelocity, vUv).xy;
+    float temperature = texture2D(uTemperature, vUv).x;
+    float density = dot(texture2D(uDensity, vUv).rgb, vec3(0.299, 0.587, 0.114));
+    velocity += dt * (buoyancy * (temperature - ambient) - weight * density) * direction;
+    gl_FragColor = vec4(velocity, 0.0, 1.0);
   }
 `;
 
@@ -87,32 +423,392 @@ export const GRADIENT_SUBTRACT_SHADER = `
   varying vec2 vUv;
   uniform sampler2D uPressure;
   uniform sampler2D uVelocity;
+  uniform sampler2D uObstacles;
   uniform vec2 texelSize;
+  ${BOUNDARY_GLSL}
 
   void main() {
-    float L = texture2D(uPressure, vUv - vec2(texelSize.x, 0.0)).x;
-    float R = texture2D(uPressure, vUv + vec2(texelSize.x, 0.0)).x;
-    float T = texture2D(uPressure, vUv + vec2(0.0, texelSize.y)).x;
-    float B = texture2D(uPressure, vUv - vec2(0.0, texelSize.y)).x;
+    if (texture2D(uObstacles, vUv).x > 0.5) {
+      gl_FragColor = vec4(0.0, 0.0, 0.0, 1.0);
+      return;
+    }
+
+    vec2 vL = vUv - vec2(texelSize.x, 0.0);
+    vec2 vR = vUv + vec2(texelSize.x, 0.0);
+    vec2 vT = vUv + vec2(0.0, texelSize.y);
+    vec2 vB = vUv - vec2(0.0, texelSize.y);
+
+    float C = texture2D(uPressure, vUv).x;
+    float L = ghostPressure(uPressure, vL, C);
+    float R = ghostPressure(uPressure, vR, C);
+    float T = ghostPressure(uPressure, vT, C);
+    float B = ghostPressure(uPressure, vB, C);
+
+    if (texture2D(uObstacles, wrapUv(vL)).x > 0.5) { L = C; }
+    if (texture2D(uObstacles, wrapUv(vR)).x > 0.5) { R = C; }
+    if (texture2D(uObstacles, wrapUv(vT)).x > 0.5) { T = C; }
+    if (texture2D(uObstacles, wrapUv(vB)).x > 0.5) { B = C; }
+
     vec2 velocity = texture2D(uVelocity, vUv).xy;
     velocity.xy -= vec2(R - L, T - B);
     gl_FragColor = vec4(velocity, 0.0, 1.0);
   }
 `;
 
+// Particle Update: Moves tracer particles along the velocity field and respawns expired ones.
+// State texel: xy position (uv), z age in seconds, w lifetime scale (0 = never spawned)
+export const PARTICLE_UPDATE_SHADER = `
+  varying vec2 vUv;
+  uniform sampler2D uParticles;
+  uniform sampler2D uVelocity;
+  uniform sampler2D uDensity;
+  uniform sampler2D uObstacles;
+  uniform vec2 texelSize; // Of the velocity field
+  uniform float dt; // Simulation step, as used by advection
+  uniform float elapsed; // Wall-clock seconds since the last update
+  uniform float lifetime;
+  uniform float seed; // Fresh every frame so respawn points don't repeat
+  uniform bool respawnOnDye;
+  ${BOUNDARY_GLSL}
+
+  float hash(vec2 p) {
+    return fract(sin(dot(p, vec2(12.9898, 78.233))) * 43758.5453);
+  }
+
+  vec2 randomPoint(float salt) {
+    return vec2(hash(vUv + seed + salt), hash(vUv.yx + seed * 1.7 + salt));
+  }
+
+  // Best of a few random candidates, so dye-seeking respawn favours bright areas without a hard cut-off
+  vec2 spawnPoint() {
+    vec2 best = randomPoint(0.0);
+    if (!respawnOnDye) return best;
+    float bestDye = dot(texture2D(uDensity, best).rgb, vec3(0.333));
+    for (int i = 1; i < 4; i++) {
+      vec2 candidate = randomPoint(float(i) * 0.173);
+      float dye = dot(texture2D(uDensity, candidate).rgb, vec3(0.333));
+      if (dye > bestDye) {
+        best = candidate;
+        bestDye = dye;
+      }
+    }
+    return best;
+  }
+
+  void main() {
+    vec4 particle = texture2D(uParticles, vUv);
+
+    // Fresh buffer: spread the starting ages so the whole population doesn't expire at once
+    if (particle.w == 0.0) {
+      float scale = 0.5 + hash(vUv * 3.1);
+      gl_FragColor = vec4(spawnPoint(), hash(vUv * 7.3) * lifetime * scale, scale);
+      return;
+    }
+
+    vec2 position = wrapUv(particle.xy + dt * texture2D(uVelocity, particle.xy).xy * texelSize);
+    float age = particle.z + elapsed;
+    if (age > lifetime * particle.w || isOutside(position) || texture2D(uObstacles, position).x > 0.5) {
+      gl_FragColor = vec4(spawnPoint(), 0.0, particle.w);
+      return;
+    }
+    gl_FragColor = vec4(position, age, particle.w);
+  }
+`;
+
+// Particle Vertex: Places one point sprite per state texel
+export const PARTICLE_VERTEX_SHADER = `
+  attribute vec2 reference; // This particle's texel in the state texture
+  uniform sampler2D uParticles;
+  uniform sampler2D uVelocity;
+  uniform float pointSize;
+  uniform float lifetime;
+  uniform float speedScale; // Velocity magnitude drawn at full heat
+  varying float vSpeed;
+  varying float vFade;
+
+  void main() {
+    vec4 particle = texture2D(uParticles, reference);
+    vSpeed = clamp(length(texture2D(uVelocity, particle.xy).xy) / speedScale, 0.0, 1.0);
+    // Fade in after spawning and out before expiring so respawns don't pop
+    float life = particle.z / max(lifetime * particle.w, 0.0001);
+    vFade = particle.w == 0.0 ? 0.0 : smoothstep(0.0, 0.1, life) * (1.0 - smoothstep(0.7, 1.0, life));
+    gl_Position = vec4(particle.xy * 2.0 - 1.0, 0.0, 1.0);
+    gl_PointSize = pointSize;
+  }
+`;
+
+// Particle Fragment: Soft round sprite, meant for additive blending
+export const PARTICLE_FRAGMENT_SHADER = `
+  uniform vec3 color;
+  uniform bool colorBySpeed;
+  varying float vSpeed;
+  varying float vFade;
+
+  void main() {
+    float r = length(gl_PointCoord - 0.5) * 2.0;
+    if (r > 1.0) discard;
+    vec3 tint = colorBySpeed ? mix(color, vec3(1.0), vSpeed) * (0.3 + 0.7 * vSpeed) : color;
+    gl_FragColor = vec4(tint * (1.0 - r * r) * vFade, 1.0);
+  }
+`;
+
+// Obstacle Brush: Paints (value = 1) or erases (value = 0) a solid disc in the obstacle field
+export const OBSTACLE_BRUSH_SHADER = `
+  varying vec2 vUv;
+  uniform sampler2D uTarget;
+  uniform float aspectRatio;
+  uniform vec2 point;
+  uniform float radius;
+  uniform float value;
+
+  void main() {
+    vec2 p = vUv - point.xy;
+    p.x *= aspectRatio;
+    float brush = 1.0 - smoothstep(radius * 0.8, radius, length(p));
+    float base = texture2D(uTarget, vUv).x;
+    float solid = value > 0.5 ? max(base, brush) : min(base, 1.0 - brush);
+    gl_FragColor = vec4(solid, 0.0, 0.0, 1.0);
+  }
+`;
+
+// Obstacle Mask: Fits an image into the domain (contain) and marks bright, opaque pixels as solid
+export const OBSTACLE_MASK_SHADER = `
+  varying vec2 vUv;
+  uniform sampler2D uMask;
+  uniform float aspectRatio; // Domain width / height
+  uniform float maskAspect; // Image width / height
+
+  void main() {
+    vec2 uv = vUv - 0.5;
+    if (maskAspect > aspectRatio) {
+      uv.y *= maskAspect / aspectRatio;
+    } else {
+      uv.x *= aspectRatio / maskAspect;
+    }
+    uv += 0.5;
+
+    float solid = 0.0;
+    if (uv.x >= 0.0 && uv.x <= 1.0 && uv.y >= 0.0 && uv.y <= 1.0) {
+      vec4 texel = texture2D(uMask, uv);
+      float luminance = dot(texel.rgb, vec3(0.299, 0.587, 0.114)) * texel.a;
+      solid = step(0.5, luminance);
+    }
+    gl_FragColor = vec4(solid, 0.0, 0.0, 1.0);
+  }
+`;
+
+// Probe: Packs the field values at one point into a 2x1 target for CPU readback
+// (pixel 0: velocity.xy, pressure, divergence; pixel 1: curl, dye.rgb)
+export const PROBE_SHADER = `
+  varying vec2 vUv;
+  uniform sampler2D uVelocity;
+  uniform sampler2D uPressure;
+  uniform sampler2D uDivergence;
+  uniform sampler2D uCurl;
+  uniform sampler2D uDensity;
+  uniform vec2 point;
+
+  void main() {
+    if (vUv.x < 0.5) {
+      gl_FragColor = vec4(texture2D(uVelocity, point).xy, texture2D(uPressure, point).x, texture2D(uDivergence, point).x);
+    } else {
+      gl_FragColor = vec4(texture2D(uCurl, point).x, texture2D(uDensity, point).rgb);
+    }
+  }
+`;
+
+// Dye Seed: Fits an image or video frame into the domain (contain) and blends it over the dye
+export const DYE_SEED_SHADER = `
+  varying vec2 vUv;
+  uniform sampler2D uTarget;
+  uniform sampler2D uImage;
+  uniform float aspectRatio; // Domain width / height
+  uniform float imageAspect; // Image width / height
+  uniform float blend; // 1 = replace, small values bleed in over several frames
+
+  void main() {
+    vec3 base = texture2D(uTarget, vUv).rgb;
+    vec2 uv = vUv - 0.5;
+    if (imageAspect > aspectRatio) {
+      uv.y *= imageAspect / aspectRatio;
+    } else {
+      uv.x *= aspectRatio / imageAspect;
+    }
+    uv += 0.5;
+
+    if (uv.x < 0.0 || uv.x > 1.0 || uv.y < 0.0 || uv.y > 1.0) {
+      gl_FragColor = vec4(base, 1.0);
+      return;
+    }
+    vec4 texel = texture2D(uImage, uv);
+    gl_FragColor = vec4(mix(base, texel.rgb, blend * texel.a), 1.0);
+  }
+`;
+
+// Bloom Prefilter: Keeps only the bright parts of the image, with a soft knee around the threshold
+export const BLOOM_PREFILTER_SHADER = `
+  varying vec2 vUv;
+  uniform sampler2D uTexture;
+  uniform vec3 curve; // (threshold - knee, knee * 2, 0.25 / knee)
+  uniform float threshold;
+
+  void main() {
+    vec3 c = texture2D(uTexture, vUv).rgb;
+    float brightness = max(c.r, max(c.g, c.b));
+    float soft = clamp(brightness - curve.x, 0.0, curve.y);
+    soft = curve.z * soft * soft;
+    c *= max(soft, brightness - threshold) / max(brightness, 0.0001);
+    gl_FragColor = vec4(c, 1.0);
+  }
+`;
+
+// Bloom Downsample: 4-tap box filter into a buffer half the size
+export const BLOOM_DOWNSAMPLE_SHADER = `
+  varying vec2 vUv;
+  uniform sampler2D uTexture;
+  uniform vec2 texelSize; // Source texel size
+
+  void main() {
+    vec4 sum = texture2D(uTexture, vUv + texelSize * vec2(-1.0, -1.0));
+    sum += texture2D(uTexture, vUv + texelSize * vec2(1.0, -1.0));
+    sum += texture2D(uTexture, vUv + texelSize * vec2(-1.0, 1.0));
+    sum += texture2D(uTexture, vUv + texelSize * vec2(1.0, 1.0));
+    gl_FragColor = sum * 0.25;
+  }
+`;
+
+// Bloom Upsample: Blurs the coarser level up and adds it to the current one
+export const BLOOM_UPSAMPLE_SHADER = `
+  varying vec2 vUv;
+  uniform sampler2D uTexture; // Coarser level
+  uniform sampler2D uBase; // Same-size level from the downsample chain
+  uniform vec2 texelSize; // Coarser level texel size
+
+  void main() {
+    vec4 sum = texture2D(uTexture, vUv + texelSize * vec2(-0.5, -0.5));
+    sum += texture2D(uTexture, vUv + texelSize * vec2(0.5, -0.5));
+    sum += texture2D(uTexture, vUv + texelSize * vec2(-0.5, 0.5));
+    sum += texture2D(uTexture, vUv + texelSize * vec2(0.5, 0.5));
+    gl_FragColor = texture2D(uBase, vUv) + sum * 0.25;
+  }
+`;
+
+// Sunrays Mask: Dark areas occlude, bright dye lets light through
+export const SUNRAYS_MASK_SHADER = `
+  varying vec2 vUv;
+  uniform sampler2D uTexture;
+
+  void main() {
+    vec3 c = texture2D(uTexture, vUv).rgb;
+    float brightness = max(c.r, max(c.g, c.b));
+    gl_FragColor = vec4(1.0 - min(brightness * 20.0, 0.8), 0.0, 0.0, 1.0);
+  }
+`;
+
+// Sunrays: Radial blur of the mask towards the screen centre (god rays)
+export const SUNRAYS_SHADER = `
+  varying vec2 vUv;
+  uniform sampler2D uTexture;
+  uniform float weight;
+
+  #define ITERATIONS 16
+
+  void main() {
+    float density = 0.3;
+    float decay = 0.95;
+    float exposure = 0.7;
+
+    vec2 coord = vUv;
+    vec2 dir = (vUv - 0.5) * density / float(ITERATIONS);
+    float illumination = 1.0;
+    float color = texture2D(uTexture, vUv).x;
+
+    for (int i = 0; i < ITERATIONS; i++) {
+      coord -= dir;
+      color += texture2D(uTexture, coord).x * illumination * weight;
+      illumination *= decay;
+    }
+    gl_FragColor = vec4(color * exposure, 0.0, 0.0, 1.0);
+  }
+`;
+
 // Display: Final output rendering with aesthetic color mapping, vignette and tone mapping
 export const DISPLAY_SHADER = `
   varying vec2 vUv;
   uniform sampler2D uTexture;
   uniform sampler2D uVelocity;
+  uniform sampler2D uObstacles;
+  uniform sampler2D uBloom;
+  uniform sampler2D uSunrays;
+  uniform sampler2D uDitherTexture;
+  uniform bool bloomEnabled;
+  uniform bool sunraysEnabled;
+  uniform bool ditheringEnabled;
+  uniform bool vignetteEnabled;
+  uniform bool transparent; // Derive alpha from brightness instead of rendering onto black
+  uniform float bloomIntensity;
+  uniform float brightness; // Gain on the dye before post-processing, 1 = as simulated
+  uniform vec2 ditherScale; // Output size / noise texture size, so the noise tiles per pixel
+  uniform sampler2D uDebugField;
+  uniform int debugMode; // 0 off, 1 velocity as colour, 2 velocity arrows, 3 signed scalar from uDebugField
+  uniform bool debugOverlay; // Blend over the dye instead of replacing it
+  uniform float debugOpacity;
+  uniform float debugScale; // Field magnitude that maps to full brightness / arrow length
+  uniform vec2 resolution; // Output size in pixels, for the arrow grid
+
+  const float ARROW_SPACING = 24.0;
+
+  vec3 hue(float h) {
+    return clamp(abs(mod(h * 6.0 + vec3(0.0, 4.0, 2.0), 6.0) - 3.0) - 1.0, 0.0, 1.0);
+  }
+
+  float segmentDistance(vec2 p, vec2 a, vec2 b) {
+    vec2 pa = p - a;
+    vec2 ba = b - a;
+    float h = clamp(dot(pa, ba) / max(dot(ba, ba), 0.0001), 0.0, 1.0);
+    return length(pa - ba * h);
+  }
+
+  // Debug colour with coverage in alpha: direction as hue, strength as alpha
+  vec4 debugColor() {
+    if (debugMode == 1) {
+      vec2 v = texture2D(uVelocity, vUv).xy / debugScale;
+      return vec4(hue(atan(v.y, v.x) / 6.2832 + 0.5), clamp(length(v), 0.0, 1.0));
+    }
+    if (debugMode == 2) {
+      vec2 p = vUv * resolution;
+      vec2 center = (floor(p / ARROW_SPACING) + 0.5) * ARROW_SPACING;
+      vec2 v = texture2D(uVelocity, center / resolution).xy / debugScale;
+      float strength = clamp(length(v), 0.0, 1.0);
+      vec2 dir = v / max(length(v), 0.0001);
+      vec2 side = vec2(-dir.y, dir.x);
+      vec2 tip = center + dir * strength * ARROW_SPACING * 0.45;
+      float d = min(segmentDistance(p, center, tip), min(
+        segmentDistance(p, tip, tip - dir * 4.0 + side * 3.0),
+        segmentDistance(p, tip, tip - dir * 4.0 - side * 3.0)));
+      float coverage = (1.0 - smoothstep(0.5, 1.5, d)) * step(0.02, strength);
+      return vec4(hue(atan(v.y, v.x) / 6.2832 + 0.5), coverage);
+    }
+    // Diverging map: positive red, negative blue
+    float s = clamp(texture2D(uDebugField, vUv).x / debugScale, -1.0, 1.0);
+    return vec4(s > 0.0 ? vec3(1.0, 0.3, 0.1) : vec3(0.1, 0.4, 1.0), abs(s));
+  }
   
   void main() {
-    vec3 c = texture2D(uTexture, vUv).rgb;
+    vec3 c = texture2D(uTexture, vUv).rgb * brightness;
+    float solid = texture2D(uObstacles, vUv).x;
+
+    // Post-processing in linear space, before tone mapping
+    float sunrays = sunraysEnabled ? texture2D(uSunrays, vUv).x : 1.0;
+    c *= sunrays;
+    if (bloomEnabled) {
+      c += texture2D(uBloom, vUv).rgb * bloomIntensity * sunrays;
+    }
     
     // Vignette
     vec2 uv = vUv * (1.0 - vUv.yx); // 0..1
     float vig = uv.x * uv.y * 20.0; 
-    vig = pow(vig, 0.2);
+    vig = vignetteEnabled ? pow(vig, 0.2) : 1.0;
     
     // Tone mapping (ACES Approximation-ish / Reinhard)
     vec3 mapped = c / (c + vec3(1.0));
@@ -120,7 +816,28 @@ export const DISPLAY_SHADER = `
     // Gamma correction
     mapped = pow(mapped, vec3(1.0 / 2.2));
     
+    // Obstacles show as a faint silhouette
+    mapped = mix(mapped, vec3(0.12), solid);
+
     // Apply vignette
-    gl_FragColor = vec4(mapped * vig, 1.0);
+    vec3 color = mapped * vig;
+
+    if (debugMode > 0) {
+      vec4 debug = debugColor();
+      color = debugOverlay ? mix(color, debug.rgb, debug.a * debugOpacity) : debug.rgb * debug.a;
+    }
+
+    // Blue-noise dither hides 8-bit banding in the dark gradients
+    if (ditheringEnabled) {
+      float noise = texture2D(uDitherTexture, vUv * ditherScale).r;
+      color += (noise - 0.5) / 255.0;
+    }
+
+    if (transparent) {
+      float alpha = clamp(max(color.r, max(color.g, color.b)), 0.0, 1.0);
+      gl_FragColor = vec4(color / max(alpha, 0.0001), alpha);
+    } else {
+      gl_FragColor = vec4(color, 1.0);
+    }
   }
 `;
\ No newline at end of file
@@ -1,97 +1,57 @@
 
-import { InstrumentType } from '../types';
-
-interface InstrumentConfig {
-  oscillators: {
-    type: OscillatorType;
-    freq: number; // Base frequency in Hz
-    detune: number; // Cents
-  }[];
-  filter: {
-    type: BiquadFilterType;
-    baseFreq: number; // Resting frequency
-    modFreq: number; // Max added frequency based on velocity
-    Q: number;
-  };
-  gain: {
-    base: number;
-    mod: number; // How much velocity adds to gain
-    attack: number; // seconds
-  };
-  delay: {
-    time: number;
-    feedback: number;
-    mix: number;
-  }
+import { DEFAULT_TUNING, DEFAULT_VOICE_LIMIT } from '../constants';
+import { AudioFeatures, InstrumentType, TuningConfig } from '../types';
+import { degreeToFrequency, SCALES } from '../utils/music';
+import { ANALYSIS_SETTINGS, MusicAnalyzer, normalizeDecibels } from '../utils/musicAnalysis';
+import { instrumentRegistry } from './instrumentRegistry';
+
+// Voices: one per pointer, each with its own copy of the instrument's oscillators, filter and gain
+const PITCH_RANGE = 2; // Octaves of scale steps from the left edge to the right, centred on the instrument's own pitch
+const FILTER_RANGE = 4; // Octaves of cutoff from the bottom edge to the top, centred on the base frequency
+const STEAL_RELEASE = 0.05; // Faster fade for a voice taken over by a new pointer
+const VOICE_TIMEOUT = 0.25; // Seconds without updates before a voice is treated as lifted (lost pointerup, replay ended)
+const VOICE_IDLE_TIMEOUT = 2; // Seconds of silence before a still pointer gives up its voice
+
+// Stereo level taps for the music mappings
+const CHANNEL_WINDOW = 512; // Samples per stereo level reading
+const CHANNEL_FLOOR_DB = -60; // Channel level that reads as silence
+
+interface Voice {
+  id: number;
+  oscs: OscillatorNode[];
+  filter: BiquadFilterNode;
+  gain: GainNode;
+  startedAt: number;
+  touchedAt: number; // Last update from the owner
+  activeAt: number; // Last update with audible intensity
 }
 
-const INSTRUMENTS: Record<InstrumentType, InstrumentConfig> = {
-  flux: {
-    // Csus2 Pad (Original)
-    oscillators: [
-      { type: 'sine', freq: 261.63, detune: 0 }, // C4
-      { type: 'sine', freq: 293.66, detune: 5 }, // D4
-      { type: 'triangle', freq: 392.00, detune: -5 } // G4
-    ],
-    filter: { type: 'lowpass', baseFreq: 200, modFreq: 2500, Q: 0.5 },
-    gain: { base: 0.05, mod: 0.35, attack: 0.3 },
-    delay: { time: 0.4, feedback: 0.3, mix: 0.25 }
-  },
-  drone: {
-    // Deep Saw Bass
-    oscillators: [
-      { type: 'sawtooth', freq: 65.41, detune: 0 }, // C2
-      { type: 'sawtooth', freq: 130.81, detune: 8 }, // C3
-      { type: 'square', freq: 98.00, detune: -8 } // G2
-    ],
-    filter: { type: 'lowpass', baseFreq: 80, modFreq: 800, Q: 2.0 }, // Resonant growl
-    gain: { base: 0.1, mod: 0.3, attack: 0.1 }, // Fast response
-    delay: { time: 0.2, feedback: 0.4, mix: 0.1 }
-  },
-  spark: {
-    // High Crystal Bells (CMaj7)
-    oscillators: [
-      { type: 'sine', freq: 523.25, detune: 0 }, // C5
-      { type: 'sine', freq: 659.25, detune: 0 }, // E5
-      { type: 'sine', freq: 987.77, detune: 0 }  // B5
-    ],
-    filter: { type: 'highpass', baseFreq: 2000, modFreq: -1500, Q: 1.0 }, // Opens downwards or stays bright
-    gain: { base: 0.0, mod: 0.2, attack: 0.05 }, // Very responsive, quiet when still
-    delay: { time: 0.25, feedback: 0.6, mix: 0.4 } // Lots of shimmer
-  },
-  orbit: {
-    // Sci-fi Pure Octaves
-    oscillators: [
-      { type: 'sine', freq: 130.81, detune: 0 }, // C3
-      { type: 'sine', freq: 261.63, detune: 2 }, // C4
-      { type: 'sine', freq: 523.25, detune: -2 } // C5
-    ],
-    filter: { type: 'bandpass', baseFreq: 300, modFreq: 1000, Q: 5.0 }, // Narrow band sweep
-    gain: { base: 0.05, mod: 0.4, attack: 0.5 }, // Slow swell
-    delay: { time: 0.6, feedback: 0.5, mix: 0.3 }
-  }
-};
-
 export class AudioService {
   public ctx: AudioContext | null = null;
   
-  private oscs: OscillatorNode[] = [];
-  private mainFilter: BiquadFilterNode | null = null;
-  private mainGain: GainNode | null = null;
+  private voices = new Map<number, Voice>();
+  private voiceLimit = DEFAULT_VOICE_LIMIT;
+  private mainGain: GainNode | null = null; // Bus every voice mixes into
   
   private delayNode: DelayNode | null = null;
   private delayGain: GainNode | null = null;
   private delayFeedback: GainNode | null = null;
   private globalGain: GainNode | null = null;
+  private recordingDestination: MediaStreamAudioDestinationNode | null = null;
   
   // Music & Visualization
   private musicElement: HTMLAudioElement | null = null;
   private musicSource: MediaElementAudioSourceNode | null = null;
   private analyser: AnalyserNode | null = null;
-  private dataArray: Uint8Array | null = null;
+  private spectrum: Float32Array | null = null;
+  private channelAnalysers: [AnalyserNode, AnalyserNode] | null = null;
+  private channelSamples: Float32Array | null = null;
   public isMusicPlaying: boolean = false;
+  // Onsets, bands and beats of whatever the analyser hears; subscribe for onset and beat events
+  public readonly musicAnalyzer = new MusicAnalyzer();
 
   private currentType: InstrumentType = 'flux';
+  private tuning: TuningConfig = DEFAULT_TUNING;
   private masterVolume: number = 0.5;
   private isMuted: boolean = false;
   private isInitialized = false;
@@ -109,10 +69,12 @@ export class AudioService {
 
     // Analyzer for visualization
     this.analyser = this.ctx.createAnalyser();
-    this.analyser.fftSize = 256; // 128 data points
-    this.dataArray = new Uint8Array(this.analyser.frequencyBinCount);
+    this.analyser.fftSize = ANALYSIS_SETTINGS.fftSize;
+    this.analyser.smoothingTimeConstant = ANALYSIS_SETTINGS.smoothing;
+    this.analyser.minDecibels = ANALYSIS_SETTINGS.minDecibels;
+    this.analyser.maxDecibels = ANALYSIS_SETTINGS.maxDecibels;
+    this.spectrum = new Float32Array(this.analyser.frequencyBinCount);
 
-    this.mainFilter = this.ctx.createBiquadFilter();
     this.mainGain = this.ctx.createGain();
     this.delayNode = this.ctx.createDelay(1.0); // Max delay 1s
     this.delayGain = this.ctx.createGain();
@@ -120,10 +82,7 @@ export class AudioService {
     const delayFilter = this.ctx.createBiquadFilter();
 
     // Wiring
-    // Oscs connect to MainFilter in applyInstrument
-    this.mainFilter.connect(this.mainGain);
-    
-    // Main Sound Path: Oscs -> Filter -> Gain -> Analyser -> GlobalGain
+    // Main Sound Path: Voices (Oscs -> Filter -> Gain) -> MainGain -> Analyser -> GlobalGain
     // We route effects through analyser so interactions also show up visually
     this.mainGain.connect(this.delayNode);
     this.mainGain.connect(this.analyser);
@@ -134,6 +93,21 @@ export class AudioService {
     // Analyser -> Global Output
     this.analyser.connect(this.globalGain);
 
+    // Per-channel level taps: upmix to stereo first so the mono synth shows on both sides, then split
+    const stereo = this.ctx.createGain();
+    stereo.channelCount = 2;
+    stereo.channelCountMode = 'explicit';
+    stereo.channelInterpretation = 'speakers';
+    const splitter = this.ctx.createChannelSplitter(2);
+    this.analyser.connect(stereo);
+    stereo.connect(splitter);
+    this.channelAnalysers = [this.ctx.createAnalyser(), this.ctx.createAnalyser()];
+    this.channelAnalysers.forEach((channel, i) => {
+      channel.fftSize = CHANNEL_WINDOW;
+      splitter.connect(channel, i);
+    });
+    this.channelSamples = new Float32Array(CHANNEL_WINDOW);
+
     // Feedback Loop: DelayNode -> Filter -> FeedbackGain -> DelayNode
     this.delayNode.connect(delayFilter);
     delayFilter.connect(this.delayFeedback);
@@ -164,6 +138,8 @@ export class AudioService {
        }
     }
 
+    // A new track shouldn't inherit the last one's tempo or loudness
+    this.musicAnalyzer.reset();
     if (typeof url === 'string') {
       this.musicElement.src = url;
     } else {
@@ -190,10 +166,36 @@ export class AudioService {
     }
   }
 
-  public getAudioData(): Uint8Array | null {
-    if (!this.analyser || !this.dataArray) return null;
-    this.analyser.getByteFrequencyData(this.dataArray);
-    return this.dataArray;
+  // Feed the analyser's current spectrum through the music analysis; call once per frame
+  public analyzeMusic(): AudioFeatures | null {
+    if (!this.ctx || !this.analyser || !this.spectrum) return null;
+    const spectrum = this.spectrum;
+    this.analyser.getFloatFrequencyData(spectrum);
+    const { minDecibels, maxDecibels } = this.analyser;
+    for (let i = 0; i < spectrum.length; i++) spectrum[i] = normalizeDecibels(spectrum[i], minDecibels, maxDecibels);
+    return this.musicAnalyzer.process({ time: this.ctx.currentTime, binHz: this.ctx.sampleRate / this.analyser.fftSize, magnitudes: spectrum });
+  }
+
+  // RMS level of the left and right channels over the last few milliseconds, in decibels mapped to 0..1
+  public getStereoLevels(): [number, number] {
+    if (!this.channelAnalysers || !this.channelSamples) return [0, 0];
+    const samples = this.channelSamples;
+    return this.channelAnalysers.map(channel => {
+      channel.getFloatTimeDomainData(samples);
+      let sum = 0;
+      for (let i = 0; i < samples.length; i++) sum += samples[i] * samples[i];
+      return normalizeDecibels(10 * Math.log10(sum / samples.length), CHANNEL_FLOOR_DB, 0);
+    }) as [number, number];
+  }
+
+  // Tap of the final mix (synth + music, after volume) for recording alongside the canvas
+  public getRecordingStream(): MediaStream | null {
+    if (!this.ctx || !this.globalGain) return null;
+    if (!this.recordingDestination) {
+      this.recordingDestination = this.ctx.createMediaStreamDestination();
+      this.globalGain.connect(this.recordingDestination);
+    }
+    return this.recordingDestination.stream;
   }
 
   // --- Synth Logic ---
@@ -221,80 +223,152 @@ export class AudioService {
     }
     
     this.currentType = type;
-    const config = INSTRUMENTS[type];
+    const config = instrumentRegistry.get(type);
     const now = this.ctx.currentTime;
 
-    // 1. Stop and disconnect old oscillators
-    this.oscs.forEach(osc => {
-      try { osc.stop(); } catch(e){}
-      osc.disconnect();
-    });
-    this.oscs = [];
+    // 1. Fade out voices playing the old sound; pointers pick up the new one on their next update
+    this.releaseAllVoices();
 
-    // 2. Create new oscillators
-    config.oscillators.forEach(oscConfig => {
-      const osc = this.ctx!.createOscillator();
-      osc.type = oscConfig.type;
-      osc.frequency.value = oscConfig.freq;
-      osc.detune.value = oscConfig.detune;
-      osc.connect(this.mainFilter!);
-      osc.start(now);
-      this.oscs.push(osc);
-    });
-
-    // 3. Apply Filter Settings
-    this.mainFilter!.type = config.filter.type;
-    this.mainFilter!.frequency.cancelScheduledValues(now);
-    this.mainFilter!.frequency.setValueAtTime(config.filter.baseFreq, now);
-    this.mainFilter!.Q.value = config.filter.Q;
-
-    // 4. Apply Gain Settings (Reset to silence to prevent pops, let update handle volume)
-    this.mainGain!.gain.cancelScheduledValues(now);
-    this.mainGain!.gain.setValueAtTime(0, now);
-
-    // 5. Apply Delay Settings
+    // 2. Apply Delay Settings
     this.delayNode!.delayTime.setValueAtTime(config.delay.time, now);
     this.delayFeedback!.gain.setValueAtTime(config.delay.feedback, now);
     this.delayGain!.gain.setValueAtTime(config.delay.mix, now);
   }
 
-  public update(velocity: number) {
-    if (!this.ctx || !this.isInitialized || !this.mainFilter || !this.mainGain) return;
+  // Voices pick up a new key or scale on their next update, gliding there like any other note change
+  public setTuning(tuning: TuningConfig) {
+    this.tuning = tuning;
+  }
+
+  public getTuning(): TuningConfig {
+    return this.tuning;
+  }
+
+  public setVoiceLimit(limit: number) {
+    this.voiceLimit = Math.max(1, Math.round(limit));
+    while (this.voices.size > this.voiceLimit) this.stealVoice();
+  }
+
+  /**
+   * Drive the voice owned by a pointer, starting one if needed (stealing the oldest when all are taken).
+   * x and y are normalized with y pointing up: x picks the pitch, y the filter cutoff, intensity (0..1) the loudness.
+   */
+  public updateVoice(id: number, x: number, y: number, intensity: number) {
+    if (!this.ctx || !this.isInitialized) return;
 
     const time = this.ctx.currentTime;
-    const config = INSTRUMENTS[this.currentType];
-    
-    // Clamp velocity
-    const intensity = Math.min(velocity, 1.2);
-    const isActive = intensity > 0.001;
+    const config = instrumentRegistry.get(this.currentType);
+    const { root, scale, glide } = this.tuning;
+    // Horizontal position walks whole scale steps, so every note stays in key
+    const shift = Math.round((x - 0.5) * PITCH_RANGE * SCALES[scale].steps.length);
+    let voice = this.voices.get(id);
+    if (!voice) {
+      if (intensity <= 0.001) return; // Still pointers don't need a voice until they move
+      if (this.voices.size >= this.voiceLimit) this.stealVoice();
+      voice = this.createVoice(id, time, shift);
+    }
 
-    // 1. Gain Mod
-    const targetGain = isActive 
-      ? config.gain.base + (intensity * config.gain.mod) 
+    // Clamp intensity
+    const level = Math.min(intensity, 1.2);
+    const isActive = level > 0.001;
+    voice.touchedAt = time;
+    if (isActive) voice.activeAt = time;
+
+    // 1. Gain Mod, shared out so several voices together stay about as loud as one
+    const targetGain = isActive
+      ? (config.gain.base + (level * config.gain.mod)) / Math.sqrt(this.voices.size)
       : 0;
-      
     // Use a faster release time (0.5s) if we are stopping to ensure it feels silent at rest
-    const rampTime = isActive ? config.gain.attack : 0.5; 
-
-    this.mainGain.gain.setTargetAtTime(targetGain, time, rampTime);
+    const rampTime = isActive ? config.gain.attack : 0.5;
+    voice.gain.gain.setTargetAtTime(targetGain, time, rampTime);
 
-    // 2. Filter Mod
-    const targetFreq = isActive 
-        ? config.filter.baseFreq + (intensity * config.filter.modFreq)
-        : config.filter.baseFreq;
-        
+    // 2. Filter: height sweeps the cutoff, speed opens it further
+    const targetFreq = config.filter.baseFreq * Math.pow(2, (y - 0.5) * FILTER_RANGE) + level * config.filter.modFreq;
     const safeFreq = Math.max(20, Math.min(20000, targetFreq));
-    this.mainFilter.frequency.setTargetAtTime(safeFreq, time, 0.2);
-
-    // 3. Subtle Detune Mod (Wobble)
-    const detuneAmount = intensity * 10;
-    this.oscs.forEach((osc, i) => {
+    voice.filter.frequency.setTargetAtTime(safeFreq, time, 0.2);
+
+    // 3. Pitch, gliding between notes (a third of the glide time gets ~95% of the way), with the detune wobble on top
+    const detuneAmount = level * 10;
+    voice.oscs.forEach((osc, i) => {
+      const { degree, octave, detune } = config.oscillators[i];
+      const frequency = degreeToFrequency(root, scale, degree + shift, octave);
+      if (glide > 0) osc.frequency.setTargetAtTime(frequency, time, glide / 3);
+      else osc.frequency.setValueAtTime(frequency, time);
       const dir = i % 2 === 0 ? 1 : -1;
-      const baseDetune = INSTRUMENTS[this.currentType].oscillators[i].detune;
-      osc.detune.setTargetAtTime(baseDetune + (detuneAmount * dir), time, 0.5);
+      osc.detune.setTargetAtTime(detune + (detuneAmount * dir), time, 0.5);
     });
   }
 
+  // Fade a pointer's voice out over the instrument's release and free it
+  public releaseVoice(id: number, release = instrumentRegistry.get(this.currentType).gain.release) {
+    const voice = this.voices.get(id);
+    if (!voice || !this.ctx) return;
+    this.voices.delete(id);
+
+    const time = this.ctx.currentTime;
+    const gain = voice.gain.gain;
+    gain.cancelScheduledValues(time);
+    gain.setValueAtTime(gain.value, time);
+    gain.linearRampToValueAtTime(0, time + release);
+    voice.oscs.forEach(osc => osc.stop(time + release + 0.05));
+  }
+
+  public releaseAllVoices() {
+    Array.from(this.voices.keys()).forEach(id => this.releaseVoice(id));
+  }
+
+  // Per-frame housekeeping: frees voices whose owner went quiet or stopped reporting
+  public update() {
+    if (!this.ctx) return;
+    const time = this.ctx.currentTime;
+    this.voices.forEach((voice, id) => {
+      if (time - voice.touchedAt > VOICE_TIMEOUT || time - voice.activeAt > VOICE_IDLE_TIMEOUT) this.releaseVoice(id);
+    });
+  }
+
+  // New voices start on their note rather than gliding in from elsewhere
+  private createVoice(id: number, time: number, shift: number): Voice {
+    const ctx = this.ctx!;
+    const config = instrumentRegistry.get(this.currentType);
+    const { root, scale } = this.tuning;
+    const filter = ctx.createBiquadFilter();
+    filter.type = config.filter.type;
+    filter.frequency.value = config.filter.baseFreq;
+    filter.Q.value = config.filter.Q;
+    // Start silent to prevent pops, let updateVoice handle volume
+    const gain = ctx.createGain();
+    gain.gain.value = 0;
+    filter.connect(gain);
+    gain.connect(this.mainGain!);
+
+    const oscs = config.oscillators.map(oscConfig => {
+      const osc = ctx.createOscillator();
+      osc.type = oscConfig.type;
+      osc.frequency.value = degreeToFrequency(root, scale, oscConfig.degree + shift, oscConfig.octave);
+      osc.detune.value = oscConfig.detune;
+      osc.connect(filter);
+      osc.start(time);
+      return osc;
+    });
+    // The last oscillator to stop tears the voice's nodes down
+    oscs[oscs.length - 1].onended = () => {
+      oscs.forEach(osc => osc.disconnect());
+      filter.disconnect();
+      gain.disconnect();
+    };
+
+    const voice: Voice = { id, oscs, filter, gain, startedAt: time, touchedAt: time, activeAt: time };
+    this.voices.set(id, voice);
+    return voice;
+  }
+
+  private stealVoice() {
+    const voices = Array.from(this.voices.values());
+    if (!voices.length) return;
+    const oldest = voices.reduce((a, b) => (b.startedAt < a.startedAt ? b : a));
+    this.releaseVoice(oldest.id, STEAL_RELEASE);
+  }
+
   public resume() {
     if (this.ctx && this.ctx.state === 'suspended') {
       this.ctx.resume();
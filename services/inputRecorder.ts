@@ -0,0 +1,102 @@
+import { SessionEvent, SessionEventInput, SessionRecording, SessionState } from '../types';
+import { instrumentRegistry } from './instrumentRegistry';
+import { modeRegistry } from './modeRegistry';
+
+const SESSION_VERSION = 1;
+
+export class InputRecorder {
+  private events: SessionEvent[] = [];
+  private initial: SessionState | null = null;
+  private startedAt = 0;
+
+  public get isRecording() {
+    return this.initial !== null;
+  }
+
+  public get eventCount() {
+    return this.events.length;
+  }
+
+  public start(initial: SessionState) {
+    this.initial = { ...initial };
+    this.events = [];
+    this.startedAt = performance.now();
+  }
+
+  public record(event: SessionEventInput) {
+    if (!this.initial) return;
+    this.events.push({ ...event, t: performance.now() - this.startedAt } as SessionEvent);
+  }
+
+  public stop(): SessionRecording | null {
+    if (!this.initial) return null;
+    const recording: SessionRecording = {
+      version: SESSION_VERSION,
+      duration: performance.now() - this.startedAt,
+      initial: this.initial,
+      events: this.events,
+    };
+    this.initial = null;
+    this.events = [];
+    return recording;
+  }
+}
+
+const isNumber = (v: unknown): v is number => typeof v === 'number' && Number.isFinite(v);
+const isRecord = (v: unknown): v is Record<string, unknown> => typeof v === 'object' && v !== null && !Array.isArray(v);
+
+// Modes and instruments must exist here: a file may name a custom one this browser doesn't have
+const isKnownMode = (v: unknown): v is string => typeof v === 'string' && modeRegistry.has(v);
+const isKnownInstrument = (v: unknown): v is string => typeof v === 'string' && instrumentRegistry.has(v);
+
+const isValidEvent = (e: unknown): e is SessionEvent => {
+  if (!isRecord(e) || !isNumber(e.t)) return false;
+  switch (e.type) {
+    case 'pointer': {
+      const pointer = e.pointer;
+      return isRecord(pointer)
+        && ['id', 'x', 'y', 'dx', 'dy'].every(key => isNumber(pointer[key]))
+        && Array.isArray(pointer.color) && pointer.color.length === 3 && pointer.color.every(isNumber);
+    }
+    case 'mode':
+      return isKnownMode(e.mode);
+    case 'instrument':
+      return isKnownInstrument(e.instrument);
+    case 'ambience':
+      return e.ambience === null || typeof e.ambience === 'string';
+    default:
+      return false;
+  }
+};
+
+// Validate a loaded session file; throws with a readable message when it can't be replayed.
+// Malformed events and switches to unknown modes or instruments are left out of the replay
+export const parseSessionRecording = (json: string): SessionRecording => {
+  let raw: unknown;
+  try {
+    raw = JSON.parse(json);
+  } catch (e) {
+    throw new Error("Session file is not valid JSON");
+  }
+
+  if (!isRecord(raw) || raw.version !== SESSION_VERSION) {
+    throw new Error(`Unsupported session version: ${isRecord(raw) ? raw.version : undefined}`);
+  }
+  const initial = raw.initial;
+  if (!isNumber(raw.duration) || !isRecord(initial) || !Array.isArray(raw.events)) {
+    throw new Error("Session file is missing required fields");
+  }
+
+  return {
+    version: SESSION_VERSION,
+    duration: raw.duration,
+    initial: {
+      mode: isKnownMode(initial.mode) ? initial.mode : 'flux',
+      instrument: isKnownInstrument(initial.instrument) ? initial.instrument : 'flux',
+      ambience: typeof initial.ambience === 'string' ? initial.ambience : null,
+    },
+    events: raw.events.filter(isValidEvent).sort((a, b) => a.t - b.t),
+  };
+};
+
+export const inputRecorder = new InputRecorder();
@@ -0,0 +1,255 @@
+import { BuiltInInstrument, CustomInstrumentDefinition, InstrumentConfig, InstrumentType, OscillatorConfig } from '../types';
+
+const STORAGE_KEY = 'flux.customInstruments';
+
+// Bump when the patch file layout changes; files from other versions are rejected
+const INSTRUMENT_FILE_VERSION = 1;
+
+export const MAX_OSCILLATORS = 6;
+export const OSCILLATOR_TYPES: OscillatorType[] = ['sine', 'triangle', 'sawtooth', 'square'];
+export const FILTER_TYPES: BiquadFilterType[] = ['lowpass', 'highpass', 'bandpass', 'notch'];
+
+type Range = { min: number; max: number };
+
+// Accepted values for every numeric setting; the editor's sliders span the same ranges
+export const OSCILLATOR_RANGES: Record<'degree' | 'octave' | 'detune', Range> = {
+  degree: { min: -14, max: 14 },
+  octave: { min: 1, max: 7 },
+  detune: { min: -100, max: 100 },
+};
+
+export const INSTRUMENT_RANGES = {
+  filter: {
+    baseFreq: { min: 20, max: 8000 },
+    modFreq: { min: -4000, max: 4000 },
+    Q: { min: 0.1, max: 20 },
+  },
+  gain: {
+    base: { min: 0, max: 0.5 },
+    mod: { min: 0, max: 0.5 },
+    attack: { min: 0.01, max: 2 },
+    release: { min: 0.05, max: 4 },
+  },
+  delay: {
+    time: { min: 0, max: 1 }, // The delay line holds one second
+    feedback: { min: 0, max: 0.9 }, // Below 1 so the echoes always die away
+    mix: { min: 0, max: 1 },
+  },
+} satisfies Record<'filter' | 'gain' | 'delay', Record<string, Range>>;
+
+const BUILT_IN_INSTRUMENTS: Record<BuiltInInstrument, InstrumentConfig> = {
+  flux: {
+    // Sus2 Pad (Original, Csus2 in C major)
+    oscillators: [
+      { type: 'sine', degree: 0, octave: 4, detune: 0 }, // C4
+      { type: 'sine', degree: 1, octave: 4, detune: 5 }, // D4
+      { type: 'triangle', degree: 4, octave: 4, detune: -5 } // G4
+    ],
+    filter: { type: 'lowpass', baseFreq: 200, modFreq: 2500, Q: 0.5 },
+    gain: { base: 0.05, mod: 0.35, attack: 0.3, release: 0.3 },
+    delay: { time: 0.4, feedback: 0.3, mix: 0.25 }
+  },
+  drone: {
+    // Deep Saw Bass
+    oscillators: [
+      { type: 'sawtooth', degree: 0, octave: 2, detune: 0 }, // C2
+      { type: 'sawtooth', degree: 0, octave: 3, detune: 8 }, // C3
+      { type: 'square', degree: 4, octave: 2, detune: -8 } // G2
+    ],
+    filter: { type: 'lowpass', baseFreq: 80, modFreq: 800, Q: 2.0 }, // Resonant growl
+    gain: { base: 0.1, mod: 0.3, attack: 0.1, release: 0.3 }, // Fast response
+    delay: { time: 0.2, feedback: 0.4, mix: 0.1 }
+  },
+  spark: {
+    // High Crystal Bells (1-3-7, CMaj7 in C major)
+    oscillators: [
+      { type: 'sine', degree: 0, octave: 5, detune: 0 }, // C5
+      { type: 'sine', degree: 2, octave: 5, detune: 0 }, // E5
+      { type: 'sine', degree: 6, octave: 5, detune: 0 }  // B5
+    ],
+    filter: { type: 'highpass', baseFreq: 2000, modFreq: -1500, Q: 1.0 }, // Opens downwards or stays bright
+    gain: { base: 0.0, mod: 0.2, attack: 0.05, release: 0.3 }, // Very responsive, quiet when still
+    delay: { time: 0.25, feedback: 0.6, mix: 0.4 } // Lots of shimmer
+  },
+  orbit: {
+    // Sci-fi Pure Octaves
+    oscillators: [
+      { type: 'sine', degree: 0, octave: 3, detune: 0 }, // C3
+      { type: 'sine', degree: 0, octave: 4, detune: 2 }, // C4
+      { type: 'sine', degree: 0, octave: 5, detune: -2 } // C5
+    ],
+    filter: { type: 'bandpass', baseFreq: 300, modFreq: 1000, Q: 5.0 }, // Narrow band sweep
+    gain: { base: 0.05, mod: 0.4, attack: 0.5, release: 0.3 }, // Slow swell
+    delay: { time: 0.6, feedback: 0.5, mix: 0.3 }
+  }
+};
+
+const isNumber = (v: unknown): v is number => typeof v === 'number' && Number.isFinite(v);
+const isRecord = (v: unknown): v is Record<string, unknown> => typeof v === 'object' && v !== null && !Array.isArray(v);
+
+const checkRange = (value: unknown, range: Range, name: string) => {
+  if (!isNumber(value) || value < range.min || value > range.max) {
+    throw new Error(`${name} must be a number from ${range.min} to ${range.max}`);
+  }
+};
+
+// Every numeric setting of one section, range-checked; returns them by key for rebuilding the section
+const checkSection = <S extends keyof typeof INSTRUMENT_RANGES>(raw: Record<string, unknown>, section: S) => {
+  const values = raw[section];
+  if (!isRecord(values)) throw new Error(`Instrument is missing its ${section} settings`);
+  const checked = {} as Record<keyof typeof INSTRUMENT_RANGES[S], number>;
+  (Object.entries(INSTRUMENT_RANGES[section]) as [keyof typeof INSTRUMENT_RANGES[S], Range][]).forEach(([key, range]) => {
+    const value = values[key as string];
+    checkRange(value, range, `${section}.${String(key)}`);
+    checked[key] = value as number;
+  });
+  return { values, checked };
+};
+
+const checkOscillator = (osc: unknown, i: number): OscillatorConfig => {
+  if (!isRecord(osc) || !OSCILLATOR_TYPES.includes(osc.type as OscillatorType)) {
+    throw new Error(`Oscillator ${i + 1} has an unknown waveform: ${isRecord(osc) ? osc.type : osc}`);
+  }
+  (Object.keys(OSCILLATOR_RANGES) as (keyof typeof OSCILLATOR_RANGES)[]).forEach(key =>
+    checkRange(osc[key], OSCILLATOR_RANGES[key], `Oscillator ${i + 1} ${key}`)
+  );
+  if (!Number.isInteger(osc.degree) || !Number.isInteger(osc.octave)) {
+    throw new Error(`Oscillator ${i + 1} degree and octave must be whole numbers`);
+  }
+  return { type: osc.type as OscillatorType, degree: osc.degree as number, octave: osc.octave as number, detune: osc.detune as number };
+};
+
+// Check an untrusted patch (localStorage or an imported file); throws with a readable message when it can't be played.
+// The result is rebuilt field by field so stray keys in the source don't ride along
+export const validateInstrumentConfig = (raw: unknown): InstrumentConfig => {
+  if (!isRecord(raw) || !Array.isArray(raw.oscillators) || raw.oscillators.length === 0 || raw.oscillators.length > MAX_OSCILLATORS) {
+    throw new Error(`Instrument needs 1 to ${MAX_OSCILLATORS} oscillators`);
+  }
+  const oscillators = raw.oscillators.map(checkOscillator);
+  const filter = checkSection(raw, 'filter');
+  if (!FILTER_TYPES.includes(filter.values.type as BiquadFilterType)) throw new Error(`Unknown filter type: ${filter.values.type}`);
+
+  return {
+    oscillators,
+    filter: { type: filter.values.type as BiquadFilterType, ...filter.checked },
+    gain: checkSection(raw, 'gain').checked,
+    delay: checkSection(raw, 'delay').checked,
+  };
+};
+
+const validateDefinition = (raw: unknown): CustomInstrumentDefinition => {
+  if (!isRecord(raw) || typeof raw.id !== 'string' || typeof raw.label !== 'string') throw new Error("Instrument needs an id and a label");
+  return { id: raw.id, label: raw.label, ...validateInstrumentConfig(raw) };
+};
+
+export const createInstrumentId = () => `custom-${Date.now().toString(36)}`;
+
+// Shareable patch file: the definition without its id, which is local to each browser
+export const serializeInstrument = ({ id, ...patch }: CustomInstrumentDefinition) =>
+  JSON.stringify({ version: INSTRUMENT_FILE_VERSION, ...patch }, null, 2);
+
+// Read a patch file; imports always get a fresh id so they never overwrite an existing instrument
+export const parseInstrumentFile = (json: string): CustomInstrumentDefinition => {
+  let raw: unknown;
+  try {
+    raw = JSON.parse(json);
+  } catch (e) {
+    throw new Error("Instrument file is not valid JSON");
+  }
+
+  if (!isRecord(raw) || raw.version !== INSTRUMENT_FILE_VERSION) {
+    throw new Error(`Unsupported instrument version: ${isRecord(raw) ? raw.version : undefined}`);
+  }
+  const label = typeof raw.label === 'string' && raw.label.trim() ? raw.label.trim().slice(0, 16) : 'Imported';
+  return { id: createInstrumentId(), label, ...validateInstrumentConfig(raw) };
+};
+
+export class InstrumentRegistry {
+  private customInstruments = new Map<string, CustomInstrumentDefinition>();
+  private listeners = new Set<() => void>();
+  private snapshot: CustomInstrumentDefinition[] = [];
+
+  constructor(private builtIns: Record<BuiltInInstrument, InstrumentConfig>) {}
+
+  public has(id: InstrumentType) {
+    return this.isBuiltIn(id) || this.customInstruments.has(id);
+  }
+
+  // Unknown ids (e.g. a deleted custom instrument) fall back to the first built-in
+  public get(id: InstrumentType): InstrumentConfig {
+    if (this.isBuiltIn(id)) return this.builtIns[id];
+    return this.customInstruments.get(id) ?? this.builtIns.flux;
+  }
+
+  // --- Custom Instruments ---
+
+  public isCustom(id: InstrumentType) {
+    return this.customInstruments.has(id);
+  }
+
+  public getCustomInstrument(id: InstrumentType): CustomInstrumentDefinition | undefined {
+    return this.customInstruments.get(id);
+  }
+
+  // Stable between changes, so it can back useSyncExternalStore
+  public listCustom(): CustomInstrumentDefinition[] {
+    return this.snapshot;
+  }
+
+  public subscribe = (listener: () => void) => {
+    this.listeners.add(listener);
+    return () => { this.listeners.delete(listener); };
+  };
+
+  public saveCustomInstrument(definition: CustomInstrumentDefinition) {
+    this.customInstruments.set(definition.id, validateDefinition(definition));
+    this.persist();
+    this.emitChange();
+  }
+
+  public deleteCustomInstrument(id: InstrumentType) {
+    if (!this.customInstruments.delete(id)) return;
+    this.persist();
+    this.emitChange();
+  }
+
+  // Entries that no longer validate are dropped with a warning rather than failing the whole list
+  public loadCustomInstruments() {
+    try {
+      const raw: unknown = JSON.parse(localStorage.getItem(STORAGE_KEY) || '[]');
+      if (!Array.isArray(raw)) return;
+      raw.forEach((entry: unknown) => {
+        try {
+          const definition = validateDefinition(entry);
+          this.customInstruments.set(definition.id, definition);
+        } catch (e) {
+          console.warn("Skipping invalid custom instrument", e);
+        }
+      });
+      this.emitChange();
+    } catch (e) {
+      console.error("Failed to load custom instruments", e);
+    }
+  }
+
+  // Own keys only, so ids like "toString" from a hand-edited link don't match
+  private isBuiltIn(id: InstrumentType): id is BuiltInInstrument {
+    return Object.prototype.hasOwnProperty.call(this.builtIns, id);
+  }
+
+  private persist() {
+    try {
+      localStorage.setItem(STORAGE_KEY, JSON.stringify(Array.from(this.customInstruments.values())));
+    } catch (e) {
+      console.error("Failed to save custom instruments", e);
+    }
+  }
+
+  private emitChange() {
+    this.snapshot = Array.from(this.customInstruments.values());
+    this.listeners.forEach(listener => listener());
+  }
+}
+
+export const instrumentRegistry = new InstrumentRegistry(BUILT_IN_INSTRUMENTS);
+if (typeof localStorage !== 'undefined') instrumentRegistry.loadCustomInstruments();
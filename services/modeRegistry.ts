@@ -0,0 +1,319 @@
+import {
+  ADVECTION_SCHEMES,
+  BOUNDARY_MODES,
+  DEFAULT_PARTICLES,
+  DEFAULT_POST_PROCESSING,
+  DEFAULT_SIMULATION_CONFIG,
+  PARTICLE_COUNTS,
+  PHYSICS_FIELDS,
+  PRESSURE_SOLVERS
+} from '../constants';
+import {
+  AdvectionScheme,
+  BoundaryMode,
+  CustomModeDefinition,
+  FluidMode,
+  FluidModeDescriptor,
+  PaletteContext,
+  ParticleConfig,
+  ParticleRespawn,
+  PostProcessingConfig,
+  PressureSolver,
+  RGB,
+  SimulationConfig
+} from '../types';
+
+const STORAGE_KEY = 'flux.customModes';
+
+// Per-emitter shade: stable per pointer with a little flicker on every splat
+const shade = ({ seed, random }: PaletteContext) => (seed + random * 0.3) % 1.0;
+
+const hslToRgb = (h: number, s: number, l: number): RGB => {
+  const k = (n: number) => (n + h * 12) % 12;
+  const a = s * Math.min(l, 1 - l);
+  const f = (n: number) => l - a * Math.max(-1, Math.min(k(n) - 3, 9 - k(n), 1));
+  return [f(0), f(8), f(4)];
+};
+
+const BUILT_IN_MODES: FluidModeDescriptor[] = [
+  {
+    id: 'flux',
+    label: 'Flux',
+    gradient: 'from-purple-500 to-pink-500',
+    palette: (ctx) => {
+      if (ctx.source === 'music') return hslToRgb((ctx.time * 0.5) % 1.0, 0.8, 0.5);
+      const phase = ctx.time * 0.5 + ctx.seed * Math.PI * 2.0;
+      return [
+        Math.sin(phase) * 0.5 + 0.5,
+        Math.sin(phase + 2.0) * 0.5 + 0.5,
+        Math.sin(phase + 4.0) * 0.5 + 0.5,
+      ];
+    },
+    simulation: {},
+    postProcessing: {},
+  },
+  {
+    id: 'ignite',
+    label: 'Ignite',
+    gradient: 'from-red-500 to-orange-500',
+    palette: (ctx) => ctx.source === 'music' ? [1.0, 0.2, 0.0] : [1.0, 0.1 + shade(ctx) * 0.3, 0.05],
+    simulation: { velocityDissipation: 0.98, densityDissipation: 0.92, curl: 40, buoyancy: 160, heat: 1.0, temperatureDissipation: 0.95, boundary: 'open' },
+    postProcessing: { bloomIntensity: 1.2, bloomThreshold: 0.5 },
+  },
+  {
+    id: 'frost',
+    label: 'Frost',
+    gradient: 'from-cyan-400 to-blue-600',
+    palette: (ctx) => {
+      if (ctx.source === 'music') return [0.1, 0.6, 1.0];
+      const r = shade(ctx);
+      return [0.05, 0.5 + r * 0.4, 0.9 + r * 0.1];
+    },
+    simulation: { velocityDissipation: 0.95, densityDissipation: 0.97, curl: 15, densityAdvection: 'macCormack' },
+    postProcessing: { bloomIntensity: 0.6, bloomThreshold: 0.7, sunrays: false },
+    particles: { enabled: true, count: 65536, lifetime: 3, size: 1.5, colorBySpeed: false, color: [0.35, 0.6, 0.8], respawn: 'dye' },
+  },
+  {
+    id: 'mist',
+    label: 'Mist',
+    gradient: 'from-gray-100 to-gray-300',
+    palette: (ctx) => {
+      if (ctx.source === 'music') return [0.8, 0.8, 0.8];
+      const grey = 0.5 + shade(ctx) * 0.5;
+      return [grey, grey, grey];
+    },
+    simulation: {
+      velocityDissipation: 0.99, densityDissipation: 0.98, curl: 10, buoyancy: 40, smokeWeight: 4, heat: 0.4,
+      velocityAdvection: 'macCormack', densityAdvection: 'bfecc',
+    },
+    postProcessing: { bloom: false, sunraysWeight: 0.6 },
+  },
+];
+
+const hexToRgb = (hex: string): RGB => {
+  const value = parseInt(hex.replace('#', ''), 16);
+  return [((value >> 16) & 255) / 255, ((value >> 8) & 255) / 255, (value & 255) / 255];
+};
+
+// Cyclic interpolation through the colour stops; pointers start at their own offset along the cycle
+export const createStopPalette = (colors: string[], cycleSpeed: number) => {
+  const stops = colors.map(hexToRgb);
+  return (ctx: PaletteContext): RGB => {
+    if (stops.length === 0) return [1, 1, 1];
+    const offset = ctx.source === 'pointer' ? ctx.seed + ctx.random * 0.1 : 0;
+    const position = ((((ctx.time * cycleSpeed + offset) % 1) + 1) % 1) * stops.length;
+    const index = Math.floor(position);
+    const t = position - index;
+    const a = stops[index % stops.length];
+    const b = stops[(index + 1) % stops.length];
+    return [a[0] + (b[0] - a[0]) * t, a[1] + (b[1] - a[1]) * t, a[2] + (b[2] - a[2]) * t];
+  };
+};
+
+type Range = { min: number; max: number };
+
+// Accepted values for stored post-processing and particle settings; built-in modes and the editor stay inside them
+const POST_PROCESSING_RANGES: Record<'bloomIntensity' | 'bloomThreshold' | 'bloomSoftKnee' | 'bloomIterations' | 'sunraysWeight', Range> = {
+  bloomIntensity: { min: 0, max: 2 },
+  bloomThreshold: { min: 0, max: 1 },
+  bloomSoftKnee: { min: 0, max: 1 },
+  bloomIterations: { min: 1, max: 8 },
+  sunraysWeight: { min: 0, max: 1 },
+};
+
+const PARTICLE_RANGES: Record<'lifetime' | 'size', Range> = {
+  lifetime: { min: 0.5, max: 10 },
+  size: { min: 0.5, max: 8 },
+};
+
+const PARTICLE_RESPAWNS: ParticleRespawn[] = ['uniform', 'dye'];
+
+const isNumber = (v: unknown): v is number => typeof v === 'number' && Number.isFinite(v);
+const isRecord = (v: unknown): v is Record<string, unknown> => typeof v === 'object' && v !== null && !Array.isArray(v);
+const clamp = (value: number, { min, max }: Range) => Math.min(max, Math.max(min, value));
+
+// Stored settings are rebuilt key by key: unknown keys and values of the wrong type are dropped, numbers are clamped
+const checkSimulation = (raw: unknown): Partial<SimulationConfig> => {
+  const simulation: Partial<SimulationConfig> = {};
+  if (!isRecord(raw)) return simulation;
+  PHYSICS_FIELDS.forEach(field => {
+    const value = raw[field.key];
+    if (isNumber(value)) simulation[field.key] = clamp(value, field);
+  });
+  if (BOUNDARY_MODES.includes(raw.boundary as BoundaryMode)) simulation.boundary = raw.boundary as BoundaryMode;
+  if (ADVECTION_SCHEMES.includes(raw.velocityAdvection as AdvectionScheme)) simulation.velocityAdvection = raw.velocityAdvection as AdvectionScheme;
+  if (ADVECTION_SCHEMES.includes(raw.densityAdvection as AdvectionScheme)) simulation.densityAdvection = raw.densityAdvection as AdvectionScheme;
+  if (PRESSURE_SOLVERS.includes(raw.pressureSolver as PressureSolver)) simulation.pressureSolver = raw.pressureSolver as PressureSolver;
+  return simulation;
+};
+
+const checkPostProcessing = (raw: unknown): Partial<PostProcessingConfig> => {
+  const postProcessing: Partial<PostProcessingConfig> = {};
+  if (!isRecord(raw)) return postProcessing;
+  (Object.keys(POST_PROCESSING_RANGES) as (keyof typeof POST_PROCESSING_RANGES)[]).forEach(key => {
+    const value = raw[key];
+    if (isNumber(value)) postProcessing[key] = clamp(value, POST_PROCESSING_RANGES[key]);
+  });
+  if (postProcessing.bloomIterations !== undefined) postProcessing.bloomIterations = Math.round(postProcessing.bloomIterations);
+  (['bloom', 'sunrays', 'dithering'] as const).forEach(key => {
+    if (typeof raw[key] === 'boolean') postProcessing[key] = raw[key] as boolean;
+  });
+  return postProcessing;
+};
+
+const checkParticles = (raw: unknown): Partial<ParticleConfig> => {
+  const particles: Partial<ParticleConfig> = {};
+  if (!isRecord(raw)) return particles;
+  // Only the offered counts: each one is a known power-of-two state texture
+  if (PARTICLE_COUNTS.includes(raw.count as number)) particles.count = raw.count as number;
+  (Object.keys(PARTICLE_RANGES) as (keyof typeof PARTICLE_RANGES)[]).forEach(key => {
+    const value = raw[key];
+    if (isNumber(value)) particles[key] = clamp(value, PARTICLE_RANGES[key]);
+  });
+  (['enabled', 'colorBySpeed'] as const).forEach(key => {
+    if (typeof raw[key] === 'boolean') particles[key] = raw[key] as boolean;
+  });
+  if (Array.isArray(raw.color) && raw.color.length === 3 && raw.color.every(isNumber)) {
+    particles.color = raw.color.map(c => clamp(c, { min: 0, max: 1 })) as RGB;
+  }
+  if (PARTICLE_RESPAWNS.includes(raw.respawn as ParticleRespawn)) particles.respawn = raw.respawn as ParticleRespawn;
+  return particles;
+};
+
+// Check a stored custom mode (localStorage is untrusted); null when it has no usable id, label or palette
+const validateCustomMode = (raw: unknown): CustomModeDefinition | null => {
+  if (!isRecord(raw) || typeof raw.id !== 'string' || typeof raw.label !== 'string' || !isNumber(raw.cycleSpeed)) return null;
+  if (!Array.isArray(raw.colors) || !raw.colors.every(c => typeof c === 'string' && /^#[0-9a-f]{6}$/i.test(c))) return null;
+  return {
+    id: raw.id,
+    label: raw.label,
+    colors: raw.colors as string[],
+    cycleSpeed: raw.cycleSpeed,
+    simulation: checkSimulation(raw.simulation),
+    postProcessing: checkPostProcessing(raw.postProcessing),
+    particles: checkParticles(raw.particles),
+  };
+};
+
+export class ModeRegistry {
+  private modes = new Map<string, FluidModeDescriptor>();
+  private customModes = new Map<string, CustomModeDefinition>();
+  private listeners = new Set<() => void>();
+  private snapshot: FluidModeDescriptor[] = [];
+
+  constructor(builtIns: FluidModeDescriptor[]) {
+    builtIns.forEach(mode => this.modes.set(mode.id, mode));
+    this.snapshot = Array.from(this.modes.values());
+  }
+
+  public register(mode: FluidModeDescriptor) {
+    this.modes.set(mode.id, mode);
+    this.emitChange();
+  }
+
+  public unregister(id: FluidMode) {
+    if (this.modes.delete(id)) this.emitChange();
+  }
+
+  public has(id: FluidMode) {
+    return this.modes.has(id);
+  }
+
+  // Unknown ids (e.g. a deleted custom mode) fall back to the first built-in
+  public get(id: FluidMode): FluidModeDescriptor {
+    return this.modes.get(id) ?? this.snapshot[0];
+  }
+
+  // Stable between changes, so it can back useSyncExternalStore
+  public list(): FluidModeDescriptor[] {
+    return this.snapshot;
+  }
+
+  public subscribe = (listener: () => void) => {
+    this.listeners.add(listener);
+    return () => { this.listeners.delete(listener); };
+  };
+
+  // --- Custom Modes ---
+
+  public isCustom(id: FluidMode) {
+    return this.customModes.has(id);
+  }
+
+  public getCustomMode(id: FluidMode): CustomModeDefinition | undefined {
+    return this.customModes.get(id);
+  }
+
+  public saveCustomMode(definition: CustomModeDefinition) {
+    this.customModes.set(definition.id, definition);
+    this.register(this.fromDefinition(definition));
+    this.persist();
+  }
+
+  public deleteCustomMode(id: FluidMode) {
+    if (!this.customModes.delete(id)) return;
+    this.unregister(id);
+    this.persist();
+  }
+
+  public loadCustomModes() {
+    try {
+      const raw: unknown = JSON.parse(localStorage.getItem(STORAGE_KEY) || '[]');
+      if (!Array.isArray(raw)) return;
+      raw.forEach(entry => {
+        const definition = validateCustomMode(entry);
+        if (!definition) return;
+        this.customModes.set(definition.id, definition);
+        this.modes.set(definition.id, this.fromDefinition(definition));
+      });
+      this.emitChange();
+    } catch (e) {
+      console.error("Failed to load custom modes", e);
+    }
+  }
+
+  private fromDefinition(definition: CustomModeDefinition): FluidModeDescriptor {
+    return {
+      id: definition.id,
+      label: definition.label,
+      gradient: 'from-white/60 to-white/20',
+      palette: createStopPalette(definition.colors, definition.cycleSpeed),
+      simulation: definition.simulation ?? {},
+      postProcessing: definition.postProcessing ?? {},
+      particles: definition.particles ?? {},
+    };
+  }
+
+  private persist() {
+    try {
+      localStorage.setItem(STORAGE_KEY, JSON.stringify(Array.from(this.customModes.values())));
+    } catch (e) {
+      console.error("Failed to save custom modes", e);
+    }
+  }
+
+  private emitChange() {
+    this.snapshot = Array.from(this.modes.values());
+    this.listeners.forEach(listener => listener());
+  }
+}
+
+export const modeRegistry = new ModeRegistry(BUILT_IN_MODES);
+if (typeof localStorage !== 'undefined') modeRegistry.loadCustomModes();
+
+// Mode defaults merged with caller overrides
+export const resolveSimulationConfig = (mode: FluidMode, overrides: Partial<SimulationConfig> = {}): SimulationConfig => ({
+  ...DEFAULT_SIMULATION_CONFIG,
+  ...modeRegistry.get(mode).simulation,
+  ...overrides,
+});
+
+export const resolvePostProcessing = (mode: FluidMode): PostProcessingConfig => ({
+  ...DEFAULT_POST_PROCESSING,
+  ...modeRegistry.get(mode).postProcessing,
+});
+
+export const resolveParticles = (mode: FluidMode): ParticleConfig => ({
+  ...DEFAULT_PARTICLES,
+  ...modeRegistry.get(mode).particles,
+});
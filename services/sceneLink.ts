@@ -0,0 +1,130 @@
+import { ADVECTION_SCHEMES, BOUNDARY_MODES, PHYSICS_FIELDS, PRESSURE_SOLVERS } from '../constants';
+import { AdvectionScheme, AudioRoute, AudioSource, BoundaryMode, PressureSolver, SceneState, SimulationConfig, UiTab, VisualTarget } from '../types';
+import {
+  AUDIO_MAPPING_PRESETS,
+  AUDIO_SOURCES,
+  DEFAULT_AUDIO_MAPPING,
+  findMappingPreset,
+  MAX_ROUTES,
+  ROUTE_AMOUNT_RANGE,
+  VISUAL_TARGETS
+} from '../utils/audioMapping';
+import { SPECTRUM_BANDS } from '../utils/musicAnalysis';
+import { instrumentRegistry } from './instrumentRegistry';
+import { modeRegistry } from './modeRegistry';
+
+// Bump when the hash layout changes; links from other versions load the defaults
+const SCENE_VERSION = 1;
+
+const UI_TABS: UiTab[] = ['visual', 'audio', 'music', 'ambience'];
+
+export const DEFAULT_SCENE: SceneState = {
+  mode: 'flux',
+  instrument: 'flux',
+  volume: 0.5,
+  uiTab: 'visual',
+  ambience: null,
+  physics: {},
+  audioMapping: DEFAULT_AUDIO_MAPPING,
+};
+
+const oneOf = <T extends string>(value: string | null, options: readonly T[], fallback: T): T =>
+  options.includes(value as T) ? value as T : fallback;
+
+const clamp = (value: number, min: number, max: number) => Math.min(max, Math.max(min, value));
+const trim = (value: number) => String(parseFloat(value.toFixed(3)));
+
+// One route per "_"-separated entry: source[.band]-target-amount[-x-y-direction]; every number is non-negative
+const encodeRoutes = (routes: AudioRoute[]) => routes.map(route => [
+  route.source === 'spectrum' ? `spectrum.${route.band ?? 0}` : route.source,
+  route.target,
+  trim(route.amount),
+  ...(route.target === 'emitter' && route.position ? [...route.position.map(trim), String(Math.round(route.direction ?? 0))] : []),
+].join('-')).join('_');
+
+// Malformed entries are skipped rather than dropping the whole mapping
+const decodeRoutes = (value: string): AudioRoute[] => value.split('_').slice(0, MAX_ROUTES).flatMap(entry => {
+  const [sourceField, target, amountField, x, y, direction] = entry.split('-');
+  const [source, bandField] = sourceField.split('.');
+  const amount = parseFloat(amountField);
+  if (!AUDIO_SOURCES.some(s => s.id === source) || !VISUAL_TARGETS.some(t => t.id === target) || !Number.isFinite(amount)) return [];
+
+  const route: AudioRoute = { source: source as AudioSource, target: target as VisualTarget, amount: clamp(amount, ROUTE_AMOUNT_RANGE.min, ROUTE_AMOUNT_RANGE.max) };
+  if (source === 'spectrum') {
+    const band = parseInt(bandField, 10);
+    route.band = Number.isFinite(band) ? clamp(band, 0, SPECTRUM_BANDS - 1) : 0;
+  }
+  if (target === 'emitter') {
+    const px = parseFloat(x), py = parseFloat(y), angle = parseFloat(direction);
+    route.position = [Number.isFinite(px) ? clamp(px, 0, 1) : 0.5, Number.isFinite(py) ? clamp(py, 0, 1) : 0.5];
+    route.direction = Number.isFinite(angle) ? ((angle % 360) + 360) % 360 : 90;
+  }
+  return [route];
+});
+
+// Readable hash, e.g. #v=1&mode=frost&inst=orbit&vol=0.50&tab=visual&amb=river&edge=periodic&curl=30
+export const encodeScene = (scene: SceneState) => {
+  const params = new URLSearchParams({
+    v: String(SCENE_VERSION),
+    mode: scene.mode,
+    inst: scene.instrument,
+    vol: scene.volume.toFixed(2),
+    tab: scene.uiTab,
+  });
+  if (scene.ambience) params.set('amb', scene.ambience);
+  if (scene.physics.boundary) params.set('edge', scene.physics.boundary);
+  if (scene.physics.velocityAdvection) params.set('vadv', scene.physics.velocityAdvection);
+  if (scene.physics.densityAdvection) params.set('dadv', scene.physics.densityAdvection);
+  if (scene.physics.pressureSolver) params.set('solver', scene.physics.pressureSolver);
+  PHYSICS_FIELDS.forEach(({ key }) => {
+    const value = scene.physics[key];
+    if (value !== undefined) params.set(key, String(value));
+  });
+  // Presets travel by name; anything hand-tuned is written out route by route
+  const preset = findMappingPreset(scene.audioMapping);
+  if (preset) {
+    if (preset.routes !== DEFAULT_AUDIO_MAPPING) params.set('map', preset.id);
+  } else {
+    params.set('routes', encodeRoutes(scene.audioMapping));
+  }
+  return `#${params.toString()}`;
+};
+
+// Never throws: unknown versions give the defaults, and each bad field falls back on its own
+export const decodeScene = (hash: string, ambiences: readonly string[]): SceneState => {
+  const params = new URLSearchParams(hash.replace(/^#/, ''));
+  if (params.get('v') !== String(SCENE_VERSION)) return DEFAULT_SCENE;
+
+  const mode = params.get('mode');
+  const instrument = params.get('inst');
+  const volume = parseFloat(params.get('vol') ?? '');
+  const ambience = params.get('amb');
+
+  const physics: Partial<SimulationConfig> = {};
+  PHYSICS_FIELDS.forEach(({ key, min, max }) => {
+    const value = parseFloat(params.get(key) ?? '');
+    if (Number.isFinite(value)) physics[key] = Math.min(max, Math.max(min, value));
+  });
+  const edge = params.get('edge');
+  if (BOUNDARY_MODES.includes(edge as BoundaryMode)) physics.boundary = edge as BoundaryMode;
+  const velocityAdvection = params.get('vadv');
+  if (ADVECTION_SCHEMES.includes(velocityAdvection as AdvectionScheme)) physics.velocityAdvection = velocityAdvection as AdvectionScheme;
+  const densityAdvection = params.get('dadv');
+  if (ADVECTION_SCHEMES.includes(densityAdvection as AdvectionScheme)) physics.densityAdvection = densityAdvection as AdvectionScheme;
+  const solver = params.get('solver');
+  if (PRESSURE_SOLVERS.includes(solver as PressureSolver)) physics.pressureSolver = solver as PressureSolver;
+
+  const routes = params.get('routes');
+  const preset = AUDIO_MAPPING_PRESETS.find(p => p.id === params.get('map'));
+  const audioMapping = routes !== null ? decodeRoutes(routes) : preset?.routes ?? DEFAULT_SCENE.audioMapping;
+
+  return {
+    mode: mode && modeRegistry.has(mode) ? mode : DEFAULT_SCENE.mode,
+    instrument: instrument && instrumentRegistry.has(instrument) ? instrument : DEFAULT_SCENE.instrument,
+    volume: Number.isFinite(volume) ? Math.min(1, Math.max(0, volume)) : DEFAULT_SCENE.volume,
+    uiTab: oneOf(params.get('tab'), UI_TABS, DEFAULT_SCENE.uiTab),
+    ambience: ambience && ambiences.includes(ambience) ? ambience : null,
+    physics,
+    audioMapping,
+  };
+};
@@ -0,0 +1,83 @@
+import { SessionEvent, SessionRecording } from '../types';
+
+export interface SessionPlaybackHandlers {
+  onStart: (recording: SessionRecording) => void; // Reset the scene to recording.initial
+  onEvent: (event: SessionEvent) => void;
+  onEnd: () => void;
+}
+
+/**
+ * Replays a SessionRecording in real time (scaled by speed) on requestAnimationFrame.
+ * Every event is emitted exactly once per pass, in recorded order, even when a slow
+ * frame has to catch up on several of them.
+ */
+export class SessionPlayer {
+  public speed = 1;
+  public loop = false;
+
+  private recording: SessionRecording | null = null;
+  private handlers: SessionPlaybackHandlers | null = null;
+  private playhead = 0;
+  private nextEvent = 0;
+  private lastTick = 0;
+  private frame = 0;
+
+  public get isPlaying() {
+    return this.frame !== 0;
+  }
+
+  // Milliseconds into the recording
+  public get position() {
+    return this.playhead;
+  }
+
+  public play(recording: SessionRecording, handlers: SessionPlaybackHandlers) {
+    this.stop();
+    this.recording = recording;
+    this.handlers = handlers;
+    this.restart();
+    this.lastTick = performance.now();
+    this.frame = requestAnimationFrame(this.tick);
+  }
+
+  public stop() {
+    if (this.frame) cancelAnimationFrame(this.frame);
+    this.frame = 0;
+    this.recording = null;
+    this.handlers = null;
+  }
+
+  private restart() {
+    this.playhead = 0;
+    this.nextEvent = 0;
+    this.handlers!.onStart(this.recording!);
+  }
+
+  private tick = (now: number) => {
+    const recording = this.recording;
+    const handlers = this.handlers;
+    if (!recording || !handlers) return;
+
+    this.playhead += (now - this.lastTick) * this.speed;
+    this.lastTick = now;
+
+    const { events } = recording;
+    while (this.nextEvent < events.length && events[this.nextEvent].t <= this.playhead) {
+      handlers.onEvent(events[this.nextEvent++]);
+    }
+
+    if (this.playhead >= recording.duration) {
+      if (this.loop) {
+        this.restart();
+      } else {
+        this.stop();
+        handlers.onEnd();
+        return;
+      }
+    }
+
+    this.frame = requestAnimationFrame(this.tick);
+  };
+}
+
+export const sessionPlayer = new SessionPlayer();
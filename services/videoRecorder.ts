@@ -0,0 +1,71 @@
+export interface VideoRecordingOptions {
+  fps: number;
+  bitrate: number; // Video bits per second
+}
+
+// Preferred first; browsers differ in which WebM codecs MediaRecorder can mux
+const MIME_TYPES = [
+  'video/webm;codecs=vp9,opus',
+  'video/webm;codecs=vp8,opus',
+  'video/webm',
+];
+
+export class VideoRecorder {
+  private recorder: MediaRecorder | null = null;
+  private chunks: Blob[] = [];
+  private startedAt = 0;
+
+  public static isSupported() {
+    return typeof MediaRecorder !== 'undefined' && typeof HTMLCanvasElement.prototype.captureStream === 'function';
+  }
+
+  public get isRecording() {
+    return this.recorder?.state === 'recording';
+  }
+
+  // Seconds since recording started
+  public get elapsed() {
+    return this.isRecording ? (performance.now() - this.startedAt) / 1000 : 0;
+  }
+
+  public start(canvas: HTMLCanvasElement, audio: MediaStream | null, { fps, bitrate }: VideoRecordingOptions) {
+    if (this.isRecording) return;
+
+    const stream = canvas.captureStream(fps);
+    audio?.getAudioTracks().forEach(track => stream.addTrack(track));
+
+    const mimeType = MIME_TYPES.find(type => MediaRecorder.isTypeSupported(type));
+    this.recorder = new MediaRecorder(stream, {
+      mimeType,
+      videoBitsPerSecond: bitrate,
+      audioBitsPerSecond: 128000,
+    });
+    this.chunks = [];
+    this.recorder.ondataavailable = (e) => {
+      if (e.data.size > 0) this.chunks.push(e.data);
+    };
+    // Emit a chunk every second so long sessions don't hold one giant buffer
+    this.recorder.start(1000);
+    this.startedAt = performance.now();
+  }
+
+  public stop(): Promise<Blob> {
+    const recorder = this.recorder;
+    if (!recorder || recorder.state === 'inactive') {
+      return Promise.reject(new Error("Not recording"));
+    }
+
+    return new Promise((resolve) => {
+      recorder.onstop = () => {
+        // Only the canvas track belongs to us; the audio track is shared with the live mix
+        recorder.stream.getVideoTracks().forEach(track => track.stop());
+        resolve(new Blob(this.chunks, { type: recorder.mimeType || 'video/webm' }));
+        this.chunks = [];
+        this.recorder = null;
+      };
+      recorder.stop();
+    });
+  }
+}
+
+export const videoRecorder = new VideoRecorder();
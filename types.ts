@@ -1,14 +1,122 @@
 
 export interface PointerData {
+  id: number;
   x: number;
   y: number;
   dx: number;
   dy: number;
   moved: boolean;
+  down: boolean;
+  color: [number, number, number];
 }
 
-export type FluidMode = 'flux' | 'ignite' | 'frost' | 'mist';
-export type InstrumentType = 'flux' | 'drone' | 'spark' | 'orbit';
+export type BuiltInFluidMode = 'flux' | 'ignite' | 'frost' | 'mist';
+// Custom modes from the palette editor use generated ids alongside the built-ins
+export type FluidMode = BuiltInFluidMode | (string & {});
+export type BuiltInInstrument = 'flux' | 'drone' | 'spark' | 'orbit';
+// Custom instruments from the instrument editor use generated ids alongside the built-ins
+export type InstrumentType = BuiltInInstrument | (string & {});
+
+export interface OscillatorConfig {
+  type: OscillatorType;
+  degree: number; // Scale degree above the key's root, 0 = root
+  octave: number; // Octave of the root the degree counts from, 4 = middle C's octave
+  detune: number; // Cents
+}
+
+// A synth patch: every voice gets its own oscillators, filter and gain, the delay is shared
+export interface InstrumentConfig {
+  oscillators: OscillatorConfig[];
+  filter: {
+    type: BiquadFilterType;
+    baseFreq: number; // Resting frequency
+    modFreq: number; // Max added frequency based on velocity
+    Q: number;
+  };
+  gain: {
+    base: number;
+    mod: number; // How much velocity adds to gain
+    attack: number; // seconds
+    release: number; // seconds to fade out once the pointer lifts
+  };
+  delay: {
+    time: number;
+    feedback: number;
+    mix: number;
+  };
+}
+
+export interface CustomInstrumentDefinition extends InstrumentConfig {
+  id: string;
+  label: string;
+}
+
+export type ScaleId = 'major' | 'minor' | 'dorian' | 'mixolydian' | 'majorPentatonic' | 'minorPentatonic' | 'wholeTone' | 'chromatic';
+
+// Key and scale the instruments play in
+export interface TuningConfig {
+  root: number; // Pitch class of the key, 0 = C ... 11 = B
+  scale: ScaleId;
+  glide: number; // Seconds for a voice to slide to its next note, 0 = jump
+}
+
+export type FrequencyBand = 'bass' | 'mid' | 'high';
+
+// One analyser reading: magnitudes per FFT bin, normalized from the decibel range to 0..1
+export interface SpectrumFrame {
+  time: number; // Seconds
+  binHz: number; // Width of one bin, sampleRate / fftSize
+  magnitudes: Float32Array;
+}
+
+// What the music analysis knows after the latest frame
+export interface AudioFeatures {
+  level: number; // Mean magnitude over the whole spectrum, 0..1
+  bands: Record<FrequencyBand, number>; // Band energy relative to its own recent peak, 0..1
+  spectrum: number[]; // Finer log-spaced bands from low to high, each relative to its own recent peak, 0..1
+  flux: number; // Spectral flux: how much louder the spectrum got since the last frame
+  threshold: number; // Adaptive level the flux has to beat to count as an onset
+  bpm: number | null; // null until enough onsets agree on a tempo
+  confidence: number; // Share of recent onset intervals that agree with the bpm, 0..1
+  beatPhase: number; // 0 on the beat, rising towards 1 just before the next one
+}
+
+// Signals a mapping can listen to, each 0..1: 'spectrum' reads one of the finer bands, left/right the channel levels,
+// onset and beat are envelopes that jump on the event and fall away, drop is 1 only on the frame of a strong bass hit
+export type AudioSource = 'level' | FrequencyBand | 'spectrum' | 'left' | 'right' | 'flux' | 'onset' | 'beat' | 'drop';
+
+// What a signal drives: splats (the roaming wanderer, a fixed emitter, a burst across the screen) or a visual parameter
+export type VisualTarget = 'wanderer' | 'emitter' | 'burst' | 'hue' | 'radius' | 'curl' | 'brightness';
+
+export interface AudioRoute {
+  source: AudioSource;
+  band?: number; // Spectrum band index, for source 'spectrum'
+  target: VisualTarget;
+  amount: number; // Scale on the 0..1 signal
+  position?: [number, number]; // Emitters: where they sit, 0..1 with y up
+  direction?: number; // Emitters: degrees counter-clockwise from +x that they push towards
+}
+
+export type MusicEvent =
+  | { type: 'onset'; time: number; strength: number; band: FrequencyBand } // strength is flux over threshold, > 1
+  | { type: 'beat'; time: number; bpm: number; index: number };
+
+// What happens at the screen edges: walls with or without tangential slip, wrap-around, or outflow
+export type BoundaryMode = 'noSlip' | 'freeSlip' | 'periodic' | 'open';
+
+// Semi-Lagrangian is one bilinear lookup; MacCormack and BFECC add an error-correcting round trip
+// that keeps fine detail sharp, clamped so the correction never overshoots
+export type AdvectionScheme = 'semiLagrangian' | 'macCormack' | 'bfecc';
+
+// Plain Jacobi sweeps on the sim grid, or multigrid V-cycles that also smooth on coarser grids
+export type PressureSolver = 'jacobi' | 'multigrid';
+
+// How the last pressure solve went. Residual is the RMS of (divergence - laplacian(pressure)), null if not measured
+export interface PressureSolveStats {
+  solver: PressureSolver;
+  iterations: number; // Jacobi iterations or V-cycles actually run
+  residual: number | null;
+}
 
 export interface SimulationConfig {
   dyeResolution: number;
@@ -16,6 +124,168 @@ export interface SimulationConfig {
   densityDissipation: number;
   velocityDissipation: number;
   pressure: number;
+  pressureIterations: number; // Jacobi iterations per frame
+  pressureSolver: PressureSolver;
+  pressureCycles: number; // Multigrid V-cycles per frame
+  pressureTolerance: number; // Residual at which the solve stops early; 0 always runs the full count
   curl: number;
   radius: number;
+  timeStep: number;
+  buoyancy: number; // Upward force per degree above ambient; 0 with smokeWeight 0 disables the temperature field
+  smokeWeight: number; // Downward pull of dense dye
+  ambientTemperature: number;
+  buoyancyDirection: number; // Degrees clockwise from straight up
+  heat: number; // Temperature added by each splat
+  temperatureDissipation: number;
+  boundary: BoundaryMode;
+  velocityAdvection: AdvectionScheme;
+  densityAdvection: AdvectionScheme;
+}
+
+// Slider-driven fields, i.e. everything except the boundary mode, advection schemes and pressure solver
+export type NumericSimulationKey = Exclude<keyof SimulationConfig, 'boundary' | 'velocityAdvection' | 'densityAdvection' | 'pressureSolver'>;
+
+// Slider label and accepted range of one numeric setting
+export interface PhysicsField {
+  key: NumericSimulationKey;
+  label: string;
+  min: number;
+  max: number;
+  step: number;
+}
+
+export interface PostProcessingConfig {
+  bloom: boolean;
+  bloomIntensity: number;
+  bloomThreshold: number;
+  bloomSoftKnee: number; // 0 = hard cut at threshold, 1 = very gradual
+  bloomIterations: number; // Number of downsample levels
+  sunrays: boolean;
+  sunraysWeight: number;
+  dithering: boolean;
+}
+
+// Where expired tracer particles reappear: anywhere, or preferring cells that hold dye
+export type ParticleRespawn = 'uniform' | 'dye';
+
+export interface ParticleConfig {
+  enabled: boolean;
+  count: number; // Rounded up to fill a square state texture
+  lifetime: number; // Mean seconds before a particle respawns
+  size: number; // Sprite diameter in CSS pixels
+  colorBySpeed: boolean; // Tint from `color` (slow) to white-hot (fast) instead of a flat colour
+  color: RGB;
+  respawn: ParticleRespawn;
+}
+
+export interface CaptureOptions {
+  longEdge: number | null; // Pixels along the longer side, null = current canvas size
+  transparent: boolean;
+  vignette: boolean;
+}
+
+// Pointer positions and deltas in recordings are normalized to the canvas (0..1) so replays fit any window
+export type SessionEvent =
+  | { t: number; type: 'pointer'; pointer: PointerData }
+  | { t: number; type: 'mode'; mode: FluidMode }
+  | { t: number; type: 'instrument'; instrument: InstrumentType }
+  | { t: number; type: 'ambience'; ambience: string | null };
+
+// Distributes over the union so each event keeps its own payload
+export type SessionEventInput = SessionEvent extends infer E ? (E extends SessionEvent ? Omit<E, 't'> : never) : never;
+
+export interface SessionState {
+  mode: FluidMode;
+  instrument: InstrumentType;
+  ambience: string | null;
+}
+
+export interface SessionRecording {
+  version: 1;
+  duration: number; // Milliseconds
+  initial: SessionState;
+  events: SessionEvent[]; // Sorted by t (milliseconds since recording start)
+}
+
+// Solver surface shared by the CPU reference implementation and its callers; coordinates are 0..1 with y up
+export interface FluidSolver {
+  readonly resolution: number;
+  splat: (x: number, y: number, dx: number, dy: number, color: RGB, radius: number, aspectRatio: number) => void;
+  step: (config: SimulationConfig) => void;
+  reset: () => void;
+}
+
+export type DebugField = 'none' | 'velocity' | 'arrows' | 'pressure' | 'divergence' | 'curl';
+
+export interface DebugViewOptions {
+  field: DebugField;
+  overlay: boolean; // Draw over the dye instead of replacing it
+  opacity: number; // Overlay strength, 0..1
+  gain: number; // Multiplies field values before colouring
+}
+
+// Raw solver values under the cursor, read back from the render targets
+export interface FieldProbe {
+  x: number; // Normalized, y up
+  y: number;
+  velocity: [number, number];
+  pressure: number;
+  divergence: number; // Before this frame's pressure solve
+  curl: number;
+  dye: RGB;
+}
+
+export type SolverBackend = 'gpu' | 'cpu';
+
+export type UiTab = 'visual' | 'audio' | 'music' | 'ambience';
+
+// Everything a shared link restores; physics holds only the user's overrides
+export interface SceneState {
+  mode: FluidMode;
+  instrument: InstrumentType;
+  volume: number;
+  uiTab: UiTab;
+  ambience: string | null;
+  physics: Partial<SimulationConfig>;
+  audioMapping: AudioRoute[]; // How music drives the visuals
+}
+
+export type QualityTierId = 'low' | 'medium' | 'high' | 'ultra';
+
+export interface QualityTier {
+  id: QualityTierId;
+  label: string;
+  simScale: number; // Multiplier on SimulationConfig.simResolution
+  dyeScale: number; // Multiplier on SimulationConfig.dyeResolution
+  iterationScale: number; // Multiplier on SimulationConfig.pressureIterations
+}
+
+export type RGB = [number, number, number];
+
+export interface PaletteContext {
+  time: number; // Seconds since the simulation started
+  random: number; // Fresh random per splat, 0..1
+  seed: number; // Stable per emitter (e.g. each pointer), 0..1
+  source: 'pointer' | 'music';
+}
+
+export interface FluidModeDescriptor {
+  id: FluidMode;
+  label: string;
+  gradient: string; // Tailwind gradient stops for the UI glow
+  palette: (ctx: PaletteContext) => RGB;
+  simulation: Partial<SimulationConfig>; // Dissipation, curl, splat radius...
+  postProcessing: Partial<PostProcessingConfig>;
+  particles?: Partial<ParticleConfig>; // Tracer layer over the dye, off unless a mode enables it
+}
+
+// Serializable form of a user-made mode, as saved by the palette editor
+export interface CustomModeDefinition {
+  id: string;
+  label: string;
+  colors: string[]; // Hex colour stops, cycled through over time
+  cycleSpeed: number; // Palette cycles per second
+  simulation: Partial<SimulationConfig>;
+  postProcessing: Partial<PostProcessingConfig>;
+  particles?: Partial<ParticleConfig>;
 }
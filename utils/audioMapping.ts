@@ -0,0 +1,173 @@
+import { AudioFeatures, AudioRoute, AudioSource, MusicEvent, RGB, VisualTarget } from '../types';
+import { SPECTRUM_BANDS } from './musicAnalysis';
+
+export const AUDIO_SOURCES: { id: AudioSource; label: string }[] = [
+  { id: 'level', label: 'Level' },
+  { id: 'bass', label: 'Bass' },
+  { id: 'mid', label: 'Mid' },
+  { id: 'high', label: 'High' },
+  { id: 'spectrum', label: 'Spectrum' },
+  { id: 'left', label: 'Left' },
+  { id: 'right', label: 'Right' },
+  { id: 'flux', label: 'Flux' },
+  { id: 'onset', label: 'Onset' },
+  { id: 'beat', label: 'Beat' },
+  { id: 'drop', label: 'Drop' },
+];
+
+export const VISUAL_TARGETS: { id: VisualTarget; label: string }[] = [
+  { id: 'wanderer', label: 'Wanderer' },
+  { id: 'emitter', label: 'Emitter' },
+  { id: 'burst', label: 'Burst' },
+  { id: 'hue', label: 'Hue' },
+  { id: 'radius', label: 'Radius' },
+  { id: 'curl', label: 'Curl' },
+  { id: 'brightness', label: 'Brightness' },
+];
+
+export const MAX_ROUTES = 12;
+export const ROUTE_AMOUNT_RANGE = { min: 0, max: 2 };
+
+const ONSET_HALF_LIFE = 0.08; // Seconds for the onset envelope to halve
+const BEAT_SHARPNESS = 4; // Higher makes the beat envelope a shorter flash
+const DROP_STRENGTH = 1.5; // Onset strength (flux over its adaptive threshold) a bass hit needs to count as a drop
+
+// Ring of emitters around the centre, one per spectrum band, lows at the bottom, pushing outwards
+const spectrumRing = (): AudioRoute[] => Array.from({ length: SPECTRUM_BANDS }, (_, band) => {
+  const angle = 270 + (band + 0.5) * (360 / SPECTRUM_BANDS);
+  const radians = (angle * Math.PI) / 180;
+  return {
+    source: 'spectrum',
+    band,
+    target: 'emitter',
+    amount: 1,
+    position: [0.5 + Math.cos(radians) * 0.25, 0.5 + Math.sin(radians) * 0.25],
+    direction: angle % 360,
+  };
+});
+
+export const AUDIO_MAPPING_PRESETS: { id: string; label: string; routes: AudioRoute[] }[] = [
+  {
+    id: 'wanderer',
+    label: 'Wanderer',
+    routes: [
+      { source: 'level', target: 'wanderer', amount: 1 },
+      { source: 'drop', target: 'burst', amount: 1 },
+    ],
+  },
+  {
+    id: 'spectrumRing',
+    label: 'Spectrum Ring',
+    routes: [
+      ...spectrumRing(),
+      { source: 'beat', target: 'brightness', amount: 0.4 },
+      { source: 'bass', target: 'curl', amount: 0.5 },
+    ],
+  },
+  {
+    id: 'stereoSides',
+    label: 'Stereo Sides',
+    routes: [
+      { source: 'left', target: 'emitter', amount: 1, position: [0.05, 0.5], direction: 0 },
+      { source: 'right', target: 'emitter', amount: 1, position: [0.95, 0.5], direction: 180 },
+      { source: 'high', target: 'hue', amount: 0.25 },
+      { source: 'onset', target: 'radius', amount: 1 },
+    ],
+  },
+  {
+    id: 'beatPulse',
+    label: 'Beat Pulse',
+    routes: [
+      { source: 'beat', target: 'emitter', amount: 1.5, position: [0.5, 0.1], direction: 90 },
+      { source: 'beat', target: 'brightness', amount: 0.6 },
+      { source: 'mid', target: 'hue', amount: 0.15 },
+      { source: 'drop', target: 'burst', amount: 0.7 },
+    ],
+  },
+];
+
+export const DEFAULT_AUDIO_MAPPING = AUDIO_MAPPING_PRESETS[0].routes;
+
+export const findMappingPreset = (routes: AudioRoute[]) =>
+  AUDIO_MAPPING_PRESETS.find(preset => JSON.stringify(preset.routes) === JSON.stringify(routes));
+
+export type AudioSignals = Record<Exclude<AudioSource, 'spectrum'>, number> & { spectrum: number[] };
+
+/**
+ * Turns analysis features and events into the 0..1 signals routes read. Onsets and drops arrive as events
+ * between frames, so handleEvent should be subscribed to the analyzer that update() reads from.
+ */
+export class AudioSignalTracker {
+  private onset = 0;
+  private drop = false;
+
+  public handleEvent = (event: MusicEvent) => {
+    if (event.type !== 'onset') return;
+    this.onset = Math.max(this.onset, Math.min(1, event.strength / 2));
+    if (event.band === 'bass' && event.strength > DROP_STRENGTH) this.drop = true;
+  };
+
+  public update(features: AudioFeatures, stereo: [number, number], dt: number): AudioSignals {
+    const signals: AudioSignals = {
+      level: features.level,
+      bass: features.bands.bass,
+      mid: features.bands.mid,
+      high: features.bands.high,
+      spectrum: features.spectrum,
+      left: stereo[0],
+      right: stereo[1],
+      flux: Math.min(1, features.flux / (features.threshold * 2)),
+      onset: this.onset,
+      beat: features.bpm === null ? 0 : Math.pow(1 - features.beatPhase, BEAT_SHARPNESS),
+      drop: this.drop ? 1 : 0,
+    };
+    this.onset *= Math.pow(0.5, dt / ONSET_HALF_LIFE);
+    this.drop = false;
+    return signals;
+  }
+}
+
+export const readSignal = (signals: AudioSignals, route: AudioRoute) =>
+  route.source === 'spectrum' ? signals.spectrum[route.band ?? 0] ?? 0 : signals[route.source];
+
+// Combined effect of the parameter routes for one frame; splat routes are drawn by the caller
+export interface AudioModulation {
+  hue: number; // Turns around the colour wheel
+  radius: number; // Multipliers, 1 = unchanged
+  curl: number;
+  brightness: number;
+  wanderer: number | null; // Excitement of the wanderer, null when nothing drives it this frame
+  burst: number; // 1 = a full burst
+}
+
+export const NEUTRAL_MODULATION: AudioModulation = { hue: 0, radius: 1, curl: 1, brightness: 1, wanderer: null, burst: 0 };
+
+export const resolveModulation = (routes: AudioRoute[], signals: AudioSignals): AudioModulation =>
+  routes.reduce((m, route) => {
+    const signal = readSignal(signals, route);
+    const value = signal * route.amount;
+    switch (route.target) {
+      case 'hue': return { ...m, hue: m.hue + value };
+      case 'radius': return { ...m, radius: m.radius + value };
+      case 'curl': return { ...m, curl: m.curl + value };
+      case 'brightness': return { ...m, brightness: m.brightness + value };
+      case 'burst': return { ...m, burst: m.burst + value };
+      // Same response curve and silence gate the wanderer always had
+      case 'wanderer': return signal > 0.01 ? { ...m, wanderer: Math.max(m.wanderer ?? 0, Math.pow(signal, 2.5) * route.amount) } : m;
+      default: return m;
+    }
+  }, NEUTRAL_MODULATION);
+
+// Rotate a colour around the grey axis, keeping its brightness
+export const shiftHue = ([r, g, b]: RGB, turns: number): RGB => {
+  if (turns === 0) return [r, g, b];
+  const angle = turns * Math.PI * 2;
+  const cos = Math.cos(angle);
+  const sin = Math.sin(angle) / Math.sqrt(3);
+  const k = (1 - cos) / 3;
+  return [
+    r * (cos + k) + g * (k - sin) + b * (k + sin),
+    r * (k + sin) + g * (cos + k) + b * (k - sin),
+    r * (k - sin) + g * (k + sin) + b * (cos + k),
+  ].map(c => Math.max(0, c)) as RGB;
+};
@@ -0,0 +1,103 @@
+// Small seeded PRNG (mulberry32) so the generated pattern is identical on every load
+const createRandom = (seed: number) => () => {
+  seed |= 0;
+  seed = (seed + 0x6d2b79f5) | 0;
+  let t = Math.imul(seed ^ (seed >>> 15), 1 | seed);
+  t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t;
+  return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+};
+
+/**
+ * Generates a tileable blue-noise threshold map with the void-and-cluster method
+ * (Ulichney 1993). Returns size * size bytes, each rank spread evenly over 0..255.
+ */
+export const generateBlueNoise = (size = 64, sigma = 1.5): Uint8Array => {
+  const n = size * size;
+
+  // Toroidal Gaussian, indexed by wrapped offset so the result tiles seamlessly
+  const kernel = new Float32Array(n);
+  for (let y = 0; y < size; y++) {
+    for (let x = 0; x < size; x++) {
+      const dx = Math.min(x, size - x);
+      const dy = Math.min(y, size - y);
+      kernel[y * size + x] = Math.exp(-(dx * dx + dy * dy) / (2 * sigma * sigma));
+    }
+  }
+
+  const binary = new Uint8Array(n);
+  const energy = new Float32Array(n);
+
+  const toggle = (i: number, on: boolean) => {
+    binary[i] = on ? 1 : 0;
+    const sign = on ? 1 : -1;
+    const ix = i % size;
+    const iy = Math.floor(i / size);
+    for (let y = 0; y < size; y++) {
+      const row = ((y - iy + size) % size) * size;
+      for (let x = 0; x < size; x++) {
+        energy[y * size + x] += sign * kernel[row + ((x - ix + size) % size)];
+      }
+    }
+  };
+
+  const tightestCluster = () => {
+    let best = -1;
+    for (let i = 0; i < n; i++) {
+      if (binary[i] && (best < 0 || energy[i] > energy[best])) best = i;
+    }
+    return best;
+  };
+
+  const largestVoid = () => {
+    let best = -1;
+    for (let i = 0; i < n; i++) {
+      if (!binary[i] && (best < 0 || energy[i] < energy[best])) best = i;
+    }
+    return best;
+  };
+
+  // Initial pattern: ~10% random points, relaxed until no point moves
+  const random = createRandom(1337);
+  const initialCount = Math.floor(n * 0.1);
+  let count = 0;
+  while (count < initialCount) {
+    const i = Math.floor(random() * n);
+    if (!binary[i]) {
+      toggle(i, true);
+      count++;
+    }
+  }
+
+  for (let guard = 0; guard < n; guard++) {
+    const cluster = tightestCluster();
+    toggle(cluster, false);
+    const gap = largestVoid();
+    toggle(gap, true);
+    if (gap === cluster) break;
+  }
+
+  const prototypeBinary = binary.slice();
+  const prototypeEnergy = energy.slice();
+  const rank = new Uint32Array(n);
+
+  // Phase 1: rank the initial points by removing the tightest clusters first
+  for (let ones = initialCount; ones > 0; ) {
+    const cluster = tightestCluster();
+    toggle(cluster, false);
+    ones--;
+    rank[cluster] = ones;
+  }
+
+  // Phase 2: restore the prototype and fill the largest voids in order
+  binary.set(prototypeBinary);
+  energy.set(prototypeEnergy);
+  for (let ones = initialCount; ones < n; ones++) {
+    const gap = largestVoid();
+    toggle(gap, true);
+    rank[gap] = ones;
+  }
+
+  const out = new Uint8Array(n);
+  for (let i = 0; i < n; i++) out[i] = Math.floor((rank[i] * 256) / n);
+  return out;
+};
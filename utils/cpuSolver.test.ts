@@ -0,0 +1,65 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { DEFAULT_SIMULATION_CONFIG } from '../constants';
+import { BoundaryMode, SimulationConfig } from '../types';
+import { CpuFluidSolver } from './cpuSolver';
+
+const config = (overrides: Partial<SimulationConfig>): SimulationConfig => ({ ...DEFAULT_SIMULATION_CONFIG, curl: 0, ...overrides });
+
+describe('CpuFluidSolver', () => {
+  describe('incompressibility', () => {
+    // Odd periodic size: plain Jacobi can't damp the checkerboard mode of an even periodic grid
+    const cases: [BoundaryMode, number][] = [['freeSlip', 32], ['noSlip', 32], ['open', 32], ['periodic', 33]];
+
+    const splatThenStep = (boundary: BoundaryMode, resolution: number, pressureIterations: number) => {
+      const solver = new CpuFluidSolver(resolution);
+      solver.step(config({ boundary, pressureIterations: 0 }));
+      solver.splat(0.3, 0.4, 300, 120, [1, 1, 1], 0.002, 1);
+      const before = solver.measureDivergence();
+      solver.step(config({ boundary, pressureIterations }));
+      return { solver, before };
+    };
+
+    cases.forEach(([boundary, resolution]) => {
+      it(`converges the pressure solve with ${boundary} edges`, () => {
+        const [few, many] = [200, 2000].map((iterations) => {
+          const { solver, before } = splatThenStep(boundary, resolution, iterations);
+          return solver.measurePressureResidual() / before;
+        });
+        assert.ok(many < few && many < 1e-3, `relative residual ${few} -> ${many}`);
+      });
+
+      // The shaders pair a half-width divergence with a full-width gradient, so the projection shrinks divergence without zeroing it
+      it(`removes most of a splat's divergence at the default iterations with ${boundary} edges`, () => {
+        const { solver, before } = splatThenStep(boundary, resolution, DEFAULT_SIMULATION_CONFIG.pressureIterations);
+        const after = solver.measureDivergence();
+        assert.ok(after < before * 0.5, `RMS divergence ${before} -> ${after}`);
+      });
+    });
+  });
+
+  describe('dissipation', () => {
+    it('scales dye and velocity by their dissipation once per step under uniform flow', () => {
+      const sim = config({ boundary: 'periodic', densityDissipation: 0.9, velocityDissipation: 0.95 });
+      const solver = new CpuFluidSolver(32);
+      for (let i = 0; i < solver.velocity.length; i += 2) solver.velocity[i] = 40;
+      solver.splat(0.5, 0.5, 0, 0, [1, 0.5, 0.25], 0.01, 1);
+      const dye = solver.totalDye();
+
+      const steps = 10;
+      for (let i = 0; i < steps; i++) solver.step(sim);
+
+      assert.ok(Math.abs(solver.totalDye() / dye - 0.9 ** steps) < 1e-4);
+      assert.ok(Math.abs(solver.velocity[0] - 40 * 0.95 ** steps) < 1e-3);
+      assert.ok(Math.abs(solver.velocity[1]) < 1e-3);
+    });
+
+    it('loses no dye when nothing dissipates', () => {
+      const solver = new CpuFluidSolver(32);
+      solver.splat(0.5, 0.5, 0, 0, [1, 1, 1], 0.01, 1);
+      const dye = solver.totalDye();
+      for (let i = 0; i < 10; i++) solver.step(config({ densityDissipation: 1 }));
+      assert.ok(Math.abs(solver.totalDye() - dye) < dye * 1e-5);
+    });
+  });
+});
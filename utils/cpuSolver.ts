@@ -0,0 +1,242 @@
+import { BoundaryMode, FluidSolver, RGB, SimulationConfig } from '../types';
+
+const wrapIndex = (k: number, n: number) => ((k % n) + n) % n;
+
+/**
+ * Pure TypeScript port of the GPU stages in Fluid.tsx on a single square grid:
+ * splat, advect, vorticity confinement, divergence, Jacobi pressure and gradient subtract.
+ * Edges follow the same boundary modes as BOUNDARY_GLSL; obstacles, buoyancy, the higher-order advection schemes and
+ * the multigrid solver are not modelled (advection is always semi-Lagrangian, pressure always Jacobi). It has no DOM or WebGL dependency, so it runs in Node.
+ *
+ * Fields are row-major with row 0 at the bottom (y up), matching texture coordinates.
+ * Velocity is interleaved (x, y) and dye is interleaved (r, g, b).
+ */
+export class CpuFluidSolver implements FluidSolver {
+  public readonly velocity: Float32Array;
+  public readonly dye: Float32Array;
+  public readonly pressure: Float32Array;
+  public readonly divergence: Float32Array;
+  private readonly curl: Float32Array;
+  private readonly scratch: Float32Array;
+  // Taken from the config on every step; splats between steps use the last one
+  private boundary: BoundaryMode = 'freeSlip';
+
+  constructor(public readonly resolution: number) {
+    const cells = resolution * resolution;
+    this.velocity = new Float32Array(cells * 2);
+    this.dye = new Float32Array(cells * 3);
+    this.pressure = new Float32Array(cells);
+    this.divergence = new Float32Array(cells);
+    this.curl = new Float32Array(cells);
+    this.scratch = new Float32Array(cells * 3);
+  }
+
+  public reset() {
+    [this.velocity, this.dye, this.pressure, this.divergence, this.curl].forEach(field => field.fill(0));
+  }
+
+  // Same Gaussian as SPLAT_SHADER: velocity gets (dx, dy), dye gets the colour
+  public splat(x: number, y: number, dx: number, dy: number, color: RGB, radius: number, aspectRatio: number) {
+    const n = this.resolution;
+    // Periodic edges measure to the nearest image of the splat, as SPLAT_SHADER does
+    const nearest = (d: number) => this.boundary === 'periodic' ? d - Math.floor(d + 0.5) : d;
+    for (let j = 0; j < n; j++) {
+      const py = nearest((j + 0.5) / n - y);
+      for (let i = 0; i < n; i++) {
+        const px = nearest((i + 0.5) / n - x) * aspectRatio;
+        const falloff = Math.exp(-(px * px + py * py) / radius);
+        if (falloff < 1e-4) continue;
+        const cell = j * n + i;
+        this.velocity[cell * 2] += dx * falloff;
+        this.velocity[cell * 2 + 1] += dy * falloff;
+        this.dye[cell * 3] += color[0] * falloff;
+        this.dye[cell * 3 + 1] += color[1] * falloff;
+        this.dye[cell * 3 + 2] += color[2] * falloff;
+      }
+    }
+  }
+
+  public step(config: SimulationConfig) {
+    const dt = config.timeStep;
+    this.boundary = config.boundary;
+    this.advect(this.velocity, 2, dt, config.velocityDissipation);
+    this.advect(this.dye, 3, dt, config.densityDissipation);
+    this.applyVorticity(config.curl, dt);
+    this.computeDivergence();
+    for (let i = 0; i < this.pressure.length; i++) this.pressure[i] *= config.pressure;
+    this.solvePressure(config.pressureIterations);
+    this.subtractGradient();
+  }
+
+  // Root-mean-square divergence of the current velocity; overwrites the divergence the last step solved against
+  public measureDivergence() {
+    this.computeDivergence();
+    let sum = 0;
+    for (let i = 0; i < this.divergence.length; i++) sum += this.divergence[i] * this.divergence[i];
+    return Math.sqrt(sum / this.divergence.length);
+  }
+
+  // Root-mean-square of RESIDUAL_SHADER's residual: how far the last pressure solve is from its Poisson equation
+  public measurePressureResidual() {
+    const n = this.resolution;
+    const p = this.pressure;
+    let sum = 0;
+    for (let j = 0; j < n; j++) {
+      for (let i = 0; i < n; i++) {
+        const cell = j * n + i;
+        const L = this.ghostPressure(p, i - 1, j, cell);
+        const R = this.ghostPressure(p, i + 1, j, cell);
+        const B = this.ghostPressure(p, i, j - 1, cell);
+        const T = this.ghostPressure(p, i, j + 1, cell);
+        const residual = this.divergence[cell] - (L + R + B + T - 4 * p[cell]);
+        sum += residual * residual;
+      }
+    }
+    return Math.sqrt(sum / p.length);
+  }
+
+  // Sum over all dye channels, for checking how fast dissipation drains the field
+  public totalDye() {
+    let sum = 0;
+    for (let i = 0; i < this.dye.length; i++) sum += this.dye[i];
+    return sum;
+  }
+
+  // Bilinear lookup like a LinearFilter texture: clamped to the edge, or wrapped when periodic
+  private sample(field: Float32Array, channels: number, channel: number, u: number, v: number) {
+    const n = this.resolution;
+    const periodic = this.boundary === 'periodic';
+    const x = periodic ? wrapIndex(u * n - 0.5, n) : Math.min(n - 1, Math.max(0, u * n - 0.5));
+    const y = periodic ? wrapIndex(v * n - 0.5, n) : Math.min(n - 1, Math.max(0, v * n - 0.5));
+    const i0 = Math.floor(x);
+    const j0 = Math.floor(y);
+    const i1 = periodic ? (i0 + 1) % n : Math.min(n - 1, i0 + 1);
+    const j1 = periodic ? (j0 + 1) % n : Math.min(n - 1, j0 + 1);
+    const tx = x - i0;
+    const ty = y - j0;
+    const at = (i: number, j: number) => field[(j * n + i) * channels + channel];
+    const bottom = at(i0, j0) + (at(i1, j0) - at(i0, j0)) * tx;
+    const top = at(i0, j1) + (at(i1, j1) - at(i0, j1)) * tx;
+    return bottom + (top - bottom) * ty;
+  }
+
+  // Semi-Lagrangian: trace each cell back along the velocity and pull the value from there
+  private advect(field: Float32Array, channels: number, dt: number, dissipation: number) {
+    const n = this.resolution;
+    const out = this.scratch.subarray(0, field.length);
+    for (let j = 0; j < n; j++) {
+      for (let i = 0; i < n; i++) {
+        const cell = j * n + i;
+        const u = (i + 0.5) / n - dt * this.velocity[cell * 2] / n;
+        const v = (j + 0.5) / n - dt * this.velocity[cell * 2 + 1] / n;
+        for (let c = 0; c < channels; c++) {
+          out[cell * channels + c] = this.sample(field, channels, c, u, v) * dissipation;
+        }
+      }
+    }
+    field.set(out);
+  }
+
+  // Velocity component in cell (i, j), or in the ghost cell across the edge from `cell`
+  private ghostVelocity(i: number, j: number, cell: number, component: number) {
+    const n = this.resolution;
+    if (this.boundary === 'periodic') return this.velocity[(wrapIndex(j, n) * n + wrapIndex(i, n)) * 2 + component];
+    if (i >= 0 && i < n && j >= 0 && j < n) return this.velocity[(j * n + i) * 2 + component];
+    const C = this.velocity[cell * 2 + component];
+    if (this.boundary === 'noSlip') return -C;
+    if (this.boundary === 'freeSlip') return component === (i < 0 || i >= n ? 0 : 1) ? -C : C;
+    return C;
+  }
+
+  // Walls hold the pressure level, open edges are held at zero
+  private ghostPressure(field: Float32Array, i: number, j: number, cell: number) {
+    const n = this.resolution;
+    if (this.boundary === 'periodic') return field[wrapIndex(j, n) * n + wrapIndex(i, n)];
+    if (i >= 0 && i < n && j >= 0 && j < n) return field[j * n + i];
+    return this.boundary === 'open' ? 0 : field[cell];
+  }
+
+  private applyVorticity(strength: number, dt: number) {
+    const n = this.resolution;
+    const vel = this.velocity;
+    for (let j = 0; j < n; j++) {
+      for (let i = 0; i < n; i++) {
+        const cell = j * n + i;
+        this.curl[cell] = 0.5 * (
+          this.ghostVelocity(i + 1, j, cell, 1) - this.ghostVelocity(i - 1, j, cell, 1)
+          - this.ghostVelocity(i, j + 1, cell, 0) + this.ghostVelocity(i, j - 1, cell, 0)
+        );
+      }
+    }
+    if (strength === 0) return;
+
+    const periodic = this.boundary === 'periodic';
+    const curlAt = (i: number, j: number) => periodic
+      ? this.curl[wrapIndex(j, n) * n + wrapIndex(i, n)]
+      : this.curl[Math.min(n - 1, Math.max(0, j)) * n + Math.min(n - 1, Math.max(0, i))];
+    for (let j = 0; j < n; j++) {
+      for (let i = 0; i < n; i++) {
+        let fx = 0.5 * (Math.abs(curlAt(i, j + 1)) - Math.abs(curlAt(i, j - 1)));
+        let fy = 0.5 * (Math.abs(curlAt(i + 1, j)) - Math.abs(curlAt(i - 1, j)));
+        const length = Math.hypot(fx, fy) + 0.0001;
+        const c = curlAt(i, j);
+        fx = fx / length * strength * c;
+        fy = -fy / length * strength * c;
+        const cell = (j * n + i) * 2;
+        vel[cell] = Math.min(1000, Math.max(-1000, vel[cell] + fx * dt));
+        vel[cell + 1] = Math.min(1000, Math.max(-1000, vel[cell + 1] + fy * dt));
+      }
+    }
+  }
+
+  private computeDivergence() {
+    const n = this.resolution;
+    for (let j = 0; j < n; j++) {
+      for (let i = 0; i < n; i++) {
+        const cell = j * n + i;
+        const L = this.ghostVelocity(i - 1, j, cell, 0);
+        const R = this.ghostVelocity(i + 1, j, cell, 0);
+        const B = this.ghostVelocity(i, j - 1, cell, 1);
+        const T = this.ghostVelocity(i, j + 1, cell, 1);
+        this.divergence[cell] = 0.5 * (R - L + T - B);
+      }
+    }
+  }
+
+  private solvePressure(iterations: number) {
+    const n = this.resolution;
+    let source = this.pressure;
+    let target = this.scratch.subarray(0, source.length);
+    for (let k = 0; k < iterations; k++) {
+      for (let j = 0; j < n; j++) {
+        for (let i = 0; i < n; i++) {
+          const cell = j * n + i;
+          const L = this.ghostPressure(source, i - 1, j, cell);
+          const R = this.ghostPressure(source, i + 1, j, cell);
+          const B = this.ghostPressure(source, i, j - 1, cell);
+          const T = this.ghostPressure(source, i, j + 1, cell);
+          target[cell] = (L + R + B + T - this.divergence[cell]) * 0.25;
+        }
+      }
+      [source, target] = [target, source];
+    }
+    if (source !== this.pressure) this.pressure.set(source);
+  }
+
+  // Full-width difference with no 0.5, as GRADIENT_SUBTRACT_SHADER does
+  private subtractGradient() {
+    const n = this.resolution;
+    const p = this.pressure;
+    for (let j = 0; j < n; j++) {
+      for (let i = 0; i < n; i++) {
+        const cell = j * n + i;
+        const L = this.ghostPressure(p, i - 1, j, cell);
+        const R = this.ghostPressure(p, i + 1, j, cell);
+        const B = this.ghostPressure(p, i, j - 1, cell);
+        const T = this.ghostPressure(p, i, j + 1, cell);
+        this.velocity[cell * 2] -= R - L;
+        this.velocity[cell * 2 + 1] -= T - B;
+      }
+    }
+  }
+}
@@ -0,0 +1,15 @@
+// Save a blob through a temporary link; the object URL is released once the click has been handled
+export const downloadBlob = (blob: Blob, filename: string) => {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  document.body.appendChild(link);
+  link.click();
+  link.remove();
+  setTimeout(() => URL.revokeObjectURL(url), 1000);
+};
+
+// Filesystem-safe timestamp for generated file names, e.g. 2024-05-01_14-03-22
+export const timestampForFilename = (date = new Date()) =>
+  date.toISOString().slice(0, 19).replace('T', '_').replace(/:/g, '-');
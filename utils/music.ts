@@ -0,0 +1,28 @@
+import { ScaleId } from '../types';
+
+export const NOTE_NAMES = ['C', 'C#', 'D', 'D#', 'E', 'F', 'F#', 'G', 'G#', 'A', 'A#', 'B'];
+
+// Semitones above the root for each degree within one octave
+export const SCALES: Record<ScaleId, { label: string; steps: number[] }> = {
+  major: { label: 'Major', steps: [0, 2, 4, 5, 7, 9, 11] },
+  minor: { label: 'Minor', steps: [0, 2, 3, 5, 7, 8, 10] },
+  dorian: { label: 'Dorian', steps: [0, 2, 3, 5, 7, 9, 10] },
+  mixolydian: { label: 'Mixolydian', steps: [0, 2, 4, 5, 7, 9, 10] },
+  majorPentatonic: { label: 'Pentatonic', steps: [0, 2, 4, 7, 9] },
+  minorPentatonic: { label: 'Minor Pent.', steps: [0, 3, 5, 7, 10] },
+  wholeTone: { label: 'Whole Tone', steps: [0, 2, 4, 6, 8, 10] },
+  chromatic: { label: 'Chromatic', steps: [0, 1, 2, 3, 4, 5, 6, 7, 8, 9, 10, 11] },
+};
+
+// Semitones above the root for any degree, negative or past the octave: degree 7 of a major scale is the next root
+export const degreeToSemitones = (scale: ScaleId, degree: number) => {
+  const { steps } = SCALES[scale];
+  const octave = Math.floor(degree / steps.length);
+  return octave * 12 + steps[degree - octave * steps.length];
+};
+
+// Frequency of a scale degree in a key; octave follows scientific pitch notation, so root 0, degree 0, octave 4 is C4
+export const degreeToFrequency = (root: number, scale: ScaleId, degree: number, octave: number) => {
+  const midi = 12 * (octave + 1) + root + degreeToSemitones(scale, degree);
+  return 440 * Math.pow(2, (midi - 69) / 12);
+};
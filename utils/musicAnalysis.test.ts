@@ -0,0 +1,61 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { MusicEvent } from '../types';
+import { analyzeSamples } from './musicAnalysis';
+
+const SAMPLE_RATE = 44100;
+
+// Quiet white noise from a fixed seed, so the spectrum is never silent and every run hears the same thing
+const noiseBed = (seconds: number) => {
+  const samples = new Float32Array(Math.round(seconds * SAMPLE_RATE));
+  let seed = 1;
+  for (let i = 0; i < samples.length; i++) {
+    seed = (seed * 1664525 + 1013904223) >>> 0;
+    samples[i] = (seed / 2 ** 32 - 0.5) * 0.01;
+  }
+  return samples;
+};
+
+// Kick drums (a falling sine thump) every beat over the noise bed
+const kickTrack = (bpm: number, seconds: number) => {
+  const samples = noiseBed(seconds);
+
+  const interval = 60 / bpm;
+  const kicks: number[] = [];
+  for (let time = 0.25; time < seconds - 0.25; time += interval) {
+    kicks.push(time);
+    const start = Math.round(time * SAMPLE_RATE);
+    let phase = 0;
+    for (let i = 0; i < 0.2 * SAMPLE_RATE && start + i < samples.length; i++) {
+      const t = i / SAMPLE_RATE;
+      phase += (2 * Math.PI * (50 + 100 * Math.exp(-t * 30))) / SAMPLE_RATE;
+      samples[start + i] += Math.sin(phase) * Math.exp(-t * 15) * 0.8;
+    }
+  }
+  return { samples, kicks };
+};
+
+const onsets = (events: MusicEvent[]) => events.filter((e): e is Extract<MusicEvent, { type: 'onset' }> => e.type === 'onset');
+
+describe('analyzeSamples', () => {
+  [90, 120, 140].forEach((bpm) => {
+    it(`finds every kick and a tempo of ${bpm} BPM`, () => {
+      const { samples, kicks } = kickTrack(bpm, 12);
+      const { events, features } = analyzeSamples(samples, SAMPLE_RATE);
+
+      const found = onsets(events);
+      assert.equal(found.length, kicks.length);
+      found.forEach((onset, i) => assert.ok(Math.abs(onset.time - kicks[i]) < 0.05, `onset at ${onset.time}, kick at ${kicks[i]}`));
+      assert.ok(found.every(onset => onset.band === 'bass'));
+
+      assert.ok(features.bpm !== null && Math.abs(features.bpm - bpm) < 2, `bpm ${features.bpm}`);
+      assert.ok(events.some(e => e.type === 'beat'));
+    });
+  });
+
+  it('stays quiet on a steady noise bed', () => {
+    const { events, features } = analyzeSamples(noiseBed(10), SAMPLE_RATE);
+    assert.equal(events.length, 0);
+    assert.equal(features.bpm, null);
+  });
+});
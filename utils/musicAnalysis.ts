@@ -0,0 +1,364 @@
+import { AudioFeatures, FrequencyBand, MusicEvent, SpectrumFrame } from '../types';
+
+// AnalyserNode settings, shared with the offline path so both see the same spectrum
+export const ANALYSIS_SETTINGS = {
+  fftSize: 1024,
+  smoothing: 0.5,
+  minDecibels: -100,
+  maxDecibels: -30,
+};
+
+const BAND_RANGES: Record<FrequencyBand, [number, number]> = {
+  bass: [20, 250],
+  mid: [250, 2000],
+  high: [2000, 16000],
+};
+const BANDS = Object.keys(BAND_RANGES) as FrequencyBand[];
+
+// Finer bands for spectrum displays: equal steps in log frequency across SPECTRUM_RANGE
+export const SPECTRUM_BANDS = 8;
+const SPECTRUM_RANGE: [number, number] = [40, 16000];
+
+// Onsets
+const FLUX_WINDOW = 1.5; // Seconds of flux history behind the adaptive threshold
+const THRESHOLD_DEVIATIONS = 1.5; // Standard deviations above the recent mean an onset has to reach
+const THRESHOLD_RATIO = 3; // ...and never less than this multiple of it, so steady noise doesn't flicker over
+const MIN_THRESHOLD = 0.002; // Floor so hiss in near-silence never counts; a kick 26 dB down still clears it
+const MIN_ONSET_INTERVAL = 0.1; // Seconds; closer peaks are one onset
+const PEAK_HALF_LIFE = 4; // Seconds for a band's reference peak to halve, so quiet passages re-normalize
+const MIN_PEAK = 0.05;
+
+// Tempo and beats
+const TEMPO_WINDOW = 8; // Seconds of onsets that vote on the tempo
+const TEMPO_TIMEOUT = 4; // Seconds without onsets before the tempo is dropped
+const MIN_TEMPO_ONSETS = 6;
+const MAX_INTERVAL = 2; // Seconds; onsets further apart don't vote
+const MIN_BPM = 75; // Tempos fold into [MIN_BPM, 2 * MIN_BPM), so half and double time agree
+const TEMPO_SPREAD = 0.02; // Octaves of Gaussian spread around each vote
+const TEMPO_AGREEMENT = 0.04; // Octaves either side of the winner that count as agreeing
+const MIN_CONFIDENCE = 0.3;
+const TEMPO_SMOOTHING = 0.25; // How far each new estimate moves a tempo that is already locked
+const TEMPO_CHANGE = 0.04; // Relative jump beyond which the new tempo replaces the old one outright
+const PHASE_TOLERANCE = 0.25; // Fraction of a beat an onset may be off and still pull the beat grid
+const PHASE_CORRECTION = 0.3; // How far each of those onsets pulls it
+
+export const normalizeDecibels = (db: number, minDecibels: number, maxDecibels: number) =>
+  Math.min(1, Math.max(0, (db - minDecibels) / (maxDecibels - minDecibels)));
+
+// Signed distance between two tempos in octaves, wrapped to [-0.5, 0.5) so 60, 120 and 240 BPM coincide
+const octaveDistance = (a: number, b: number) => {
+  const d = Math.log2(a / b);
+  return d - Math.round(d);
+};
+
+/**
+ * Real-time onset, band and tempo analysis over a stream of spectrum frames.
+ * Onsets are peaks in half-wave rectified spectral flux above the larger of mean + k·σ and a multiple of the
+ * mean over the last FLUX_WINDOW seconds, so the bar moves with the track instead of being a fixed level. Tempo comes from a
+ * histogram of intervals between recent onsets; a beat grid at that tempo is nudged towards onsets that land
+ * near it. Has no Web Audio dependency: the live app feeds it the AnalyserNode, analyzeSamples feeds it
+ * decoded audio.
+ */
+export class MusicAnalyzer {
+  private listeners = new Set<(event: MusicEvent) => void>();
+  private features: AudioFeatures = MusicAnalyzer.silence();
+  private lastTime: number | null = null;
+  private previous: Float32Array | null = null;
+  private bandBins: Record<FrequencyBand, [number, number]> | null = null;
+  private spectrumBins: [number, number][] = [];
+  private binLayout = ''; // binHz and bin count the bins were laid out for
+  private peaks: Record<FrequencyBand, number> = { bass: MIN_PEAK, mid: MIN_PEAK, high: MIN_PEAK };
+  private spectrumPeaks = new Array<number>(SPECTRUM_BANDS).fill(MIN_PEAK);
+  private fluxHistory: { time: number; flux: number }[] = [];
+  // Last frame's flux waits a frame to see whether it was a peak
+  private candidate: { time: number; flux: number; before: number; threshold: number; bandFlux: Record<FrequencyBand, number> } | null = null;
+  private lastOnset = -Infinity;
+  private onsetTimes: number[] = [];
+  private bpm: number | null = null;
+  private confidence = 0;
+  private nextBeat: number | null = null;
+  private beatIndex = 0;
+
+  private static silence(): AudioFeatures {
+    return { level: 0, bands: { bass: 0, mid: 0, high: 0 }, spectrum: new Array<number>(SPECTRUM_BANDS).fill(0), flux: 0, threshold: MIN_THRESHOLD, bpm: null, confidence: 0, beatPhase: 0 };
+  }
+
+  public subscribe = (listener: (event: MusicEvent) => void) => {
+    this.listeners.add(listener);
+    return () => { this.listeners.delete(listener); };
+  };
+
+  public getFeatures(): AudioFeatures {
+    return this.features;
+  }
+
+  // Forget everything heard so far, e.g. when a new track starts
+  public reset() {
+    this.features = MusicAnalyzer.silence();
+    this.lastTime = null;
+    this.previous = null;
+    this.peaks = { bass: MIN_PEAK, mid: MIN_PEAK, high: MIN_PEAK };
+    this.spectrumPeaks.fill(MIN_PEAK);
+    this.fluxHistory = [];
+    this.candidate = null;
+    this.lastOnset = -Infinity;
+    this.onsetTimes = [];
+    this.bpm = null;
+    this.confidence = 0;
+    this.nextBeat = null;
+    this.beatIndex = 0;
+  }
+
+  // Frames must arrive in time order; a repeat of the last time (two reads in one frame) returns the same features
+  public process({ time, binHz, magnitudes }: SpectrumFrame): AudioFeatures {
+    if (this.lastTime !== null && time <= this.lastTime) return this.features;
+    const dt = this.lastTime === null ? 0 : time - this.lastTime;
+    this.lastTime = time;
+
+    const n = magnitudes.length;
+    const previous = this.previous?.length === n ? this.previous : null;
+    const bins = this.layoutBands(binHz, n);
+
+    // 1. Level, band energies and flux
+    let level = 0;
+    for (let i = 0; i < n; i++) level += magnitudes[i];
+    level /= n;
+
+    const decay = Math.pow(0.5, dt / PEAK_HALF_LIFE);
+    const bands = { bass: 0, mid: 0, high: 0 };
+    const bandFlux = { bass: 0, mid: 0, high: 0 };
+    BANDS.forEach(band => {
+      const [start, end] = bins[band];
+      let energy = 0;
+      let rise = 0;
+      for (let i = start; i < end; i++) {
+        energy += magnitudes[i];
+        if (previous) rise += Math.max(0, magnitudes[i] - previous[i]);
+      }
+      const count = Math.max(1, end - start);
+      energy /= count;
+      this.peaks[band] = Math.max(energy, this.peaks[band] * decay, MIN_PEAK);
+      bands[band] = energy / this.peaks[band];
+      bandFlux[band] = rise / count;
+    });
+
+    const spectrum = this.spectrumBins.map(([start, end], i) => {
+      let energy = 0;
+      for (let j = start; j < end; j++) energy += magnitudes[j];
+      energy /= Math.max(1, end - start);
+      this.spectrumPeaks[i] = Math.max(energy, this.spectrumPeaks[i] * decay, MIN_PEAK);
+      return energy / this.spectrumPeaks[i];
+    });
+
+    // Bands weigh equally, so a kick's handful of bass bins isn't drowned out by hundreds of treble ones
+    const flux = (bandFlux.bass + bandFlux.mid + bandFlux.high) / BANDS.length;
+
+    if (!this.previous || this.previous.length !== n) this.previous = new Float32Array(n);
+    this.previous.set(magnitudes);
+
+    // 2. Adaptive threshold from the recent flux
+    this.fluxHistory.push({ time, flux });
+    while (this.fluxHistory[0].time < time - FLUX_WINDOW) this.fluxHistory.shift();
+    const mean = this.fluxHistory.reduce((sum, h) => sum + h.flux, 0) / this.fluxHistory.length;
+    const variance = this.fluxHistory.reduce((sum, h) => sum + (h.flux - mean) ** 2, 0) / this.fluxHistory.length;
+    const threshold = Math.max(MIN_THRESHOLD, mean * THRESHOLD_RATIO, mean + THRESHOLD_DEVIATIONS * Math.sqrt(variance));
+
+    // 3. Peak picking, one frame behind: last frame is an onset if it beat its threshold and both neighbours
+    const c = this.candidate;
+    if (c && c.flux > c.threshold && c.flux >= c.before && c.flux > flux && c.time - this.lastOnset >= MIN_ONSET_INTERVAL) {
+      this.registerOnset(c.time, c.flux / c.threshold, c.bandFlux);
+    }
+    this.candidate = { time, flux, before: c?.flux ?? 0, threshold, bandFlux };
+
+    // 4. Beats
+    if (this.bpm !== null && time - this.lastOnset > TEMPO_TIMEOUT) {
+      this.bpm = null;
+      this.confidence = 0;
+      this.nextBeat = null;
+      this.onsetTimes = [];
+    }
+    let beatPhase = 0;
+    if (this.bpm !== null && this.nextBeat !== null) {
+      const period = 60 / this.bpm;
+      if (time >= this.nextBeat) {
+        // After a stall (hidden tab, dropped frames) skip the missed beats rather than firing them all at once
+        this.nextBeat += Math.floor((time - this.nextBeat) / period) * period;
+        this.emit({ type: 'beat', time: this.nextBeat, bpm: this.bpm, index: this.beatIndex++ });
+        this.nextBeat += period;
+      }
+      beatPhase = Math.min(1, Math.max(0, 1 - (this.nextBeat - time) / period));
+    }
+
+    this.features = { level, bands, spectrum, flux, threshold, bpm: this.bpm, confidence: this.confidence, beatPhase };
+    return this.features;
+  }
+
+  // Bin index ranges per band, recomputed only when the FFT size or sample rate changes
+  private layoutBands(binHz: number, count: number) {
+    const layout = `${binHz}:${count}`;
+    if (!this.bandBins || this.binLayout !== layout) {
+      const bin = (hz: number) => Math.min(count, Math.max(0, Math.round(hz / binHz)));
+      this.bandBins = { bass: [0, 0], mid: [0, 0], high: [0, 0] };
+      BANDS.forEach(band => {
+        const [low, high] = BAND_RANGES[band];
+        this.bandBins![band] = [bin(low), Math.max(bin(low) + 1, bin(high))];
+      });
+      const [low, high] = SPECTRUM_RANGE;
+      this.spectrumBins = Array.from({ length: SPECTRUM_BANDS }, (_, i) => {
+        const start = bin(low * Math.pow(high / low, i / SPECTRUM_BANDS));
+        return [start, Math.max(start + 1, bin(low * Math.pow(high / low, (i + 1) / SPECTRUM_BANDS)))];
+      });
+      this.binLayout = layout;
+    }
+    return this.bandBins;
+  }
+
+  private registerOnset(time: number, strength: number, bandFlux: Record<FrequencyBand, number>) {
+    this.lastOnset = time;
+    const band = BANDS.reduce((a, b) => (bandFlux[b] > bandFlux[a] ? b : a));
+    this.emit({ type: 'onset', time, strength, band });
+
+    this.onsetTimes.push(time);
+    while (this.onsetTimes[0] < time - TEMPO_WINDOW) this.onsetTimes.shift();
+    this.estimateTempo(time);
+    this.alignBeats(time);
+  }
+
+  // Every pair of recent onsets votes for the tempo its interval implies
+  private estimateTempo(time: number) {
+    const times = this.onsetTimes;
+    if (times.length < MIN_TEMPO_ONSETS) return;
+    const votes: number[] = [];
+    for (let i = 0; i < times.length; i++) {
+      for (let j = i + 1; j < times.length && times[j] - times[i] <= MAX_INTERVAL; j++) {
+        votes.push(60 / (times[j] - times[i]));
+      }
+    }
+    if (!votes.length) return;
+
+    let best = MIN_BPM;
+    let bestScore = -1;
+    for (let bpm = MIN_BPM; bpm < MIN_BPM * 2; bpm += 0.5) {
+      const score = votes.reduce((sum, v) => sum + Math.exp(-(octaveDistance(bpm, v) ** 2) / (2 * TEMPO_SPREAD ** 2)), 0);
+      if (score > bestScore) {
+        bestScore = score;
+        best = bpm;
+      }
+    }
+    // Refine to the mean of the agreeing votes, each shifted by whole octaves onto the winner
+    const agreeing = votes.filter(v => Math.abs(octaveDistance(best, v)) < TEMPO_AGREEMENT);
+    const confidence = agreeing.length / votes.length;
+    if (confidence < MIN_CONFIDENCE) return;
+    const bpm = agreeing.reduce((sum, v) => sum + v * Math.pow(2, Math.round(Math.log2(best / v))), 0) / agreeing.length;
+
+    this.confidence = confidence;
+    if (this.bpm === null || Math.abs(bpm - this.bpm) / this.bpm > TEMPO_CHANGE) {
+      // New or changed tempo: start the grid from this onset
+      this.bpm = bpm;
+      this.nextBeat = time + 60 / bpm;
+    } else {
+      this.bpm += (bpm - this.bpm) * TEMPO_SMOOTHING;
+    }
+  }
+
+  // Pull the beat grid towards onsets that land close to one of its beats
+  private alignBeats(time: number) {
+    if (this.bpm === null || this.nextBeat === null) return;
+    const period = 60 / this.bpm;
+    const lastBeat = this.nextBeat - period;
+    const error = time - lastBeat < this.nextBeat - time ? time - lastBeat : time - this.nextBeat;
+    if (Math.abs(error) < period * PHASE_TOLERANCE) this.nextBeat += error * PHASE_CORRECTION;
+  }
+
+  private emit(event: MusicEvent) {
+    this.listeners.forEach(listener => listener(event));
+  }
+}
+
+// In-place iterative radix-2 FFT; re.length must be a power of two
+const fft = (re: Float64Array, im: Float64Array, cos: Float64Array, sin: Float64Array) => {
+  const n = re.length;
+  for (let i = 1, j = 0; i < n; i++) {
+    let bit = n >> 1;
+    for (; j & bit; bit >>= 1) j ^= bit;
+    j ^= bit;
+    if (i < j) {
+      [re[i], re[j]] = [re[j], re[i]];
+      [im[i], im[j]] = [im[j], im[i]];
+    }
+  }
+  for (let size = 2; size <= n; size <<= 1) {
+    const half = size >> 1;
+    const step = n / size;
+    for (let start = 0; start < n; start += size) {
+      for (let k = 0; k < half; k++) {
+        const a = start + k;
+        const b = a + half;
+        const wr = cos[k * step];
+        const wi = sin[k * step];
+        const tr = re[b] * wr - im[b] * wi;
+        const ti = re[b] * wi + im[b] * wr;
+        re[b] = re[a] - tr;
+        im[b] = im[a] - ti;
+        re[a] += tr;
+        im[a] += ti;
+      }
+    }
+  }
+};
+
+export interface OfflineAnalysis {
+  events: MusicEvent[];
+  features: AudioFeatures; // As of the last frame
+}
+
+/**
+ * Run the analysis over decoded audio (an AudioBuffer channel, or a mixdown) as if it were playing,
+ * reading the spectrum frameRate times a second. The spectrum is computed the way AnalyserNode specifies it:
+ * Blackman window, magnitude smoothed over time, then decibels. No Web Audio needed, so it runs in Node.
+ */
+export const analyzeSamples = (samples: Float32Array, sampleRate: number, frameRate = 60): OfflineAnalysis => {
+  const { fftSize, smoothing, minDecibels, maxDecibels } = ANALYSIS_SETTINGS;
+  const bins = fftSize / 2;
+  const window = new Float64Array(fftSize);
+  for (let i = 0; i < fftSize; i++) {
+    const x = (2 * Math.PI * i) / fftSize;
+    window[i] = 0.42 - 0.5 * Math.cos(x) + 0.08 * Math.cos(2 * x);
+  }
+  const cos = new Float64Array(bins);
+  const sin = new Float64Array(bins);
+  for (let k = 0; k < bins; k++) {
+    cos[k] = Math.cos((-2 * Math.PI * k) / fftSize);
+    sin[k] = Math.sin((-2 * Math.PI * k) / fftSize);
+  }
+
+  const re = new Float64Array(fftSize);
+  const im = new Float64Array(fftSize);
+  const smoothed = new Float64Array(bins);
+  const magnitudes = new Float32Array(bins);
+  const analyzer = new MusicAnalyzer();
+  const events: MusicEvent[] = [];
+  const unsubscribe = analyzer.subscribe(event => events.push(event));
+
+  // Each frame sees the fftSize samples leading up to its time, as the live analyser does
+  for (let frame = 0; ; frame++) {
+    const time = frame / frameRate;
+    const end = Math.round(time * sampleRate);
+    if (end > samples.length) break;
+    if (end < fftSize) continue;
+
+    for (let i = 0; i < fftSize; i++) {
+      re[i] = samples[end - fftSize + i] * window[i];
+      im[i] = 0;
+    }
+    fft(re, im, cos, sin);
+    for (let k = 0; k < bins; k++) {
+      smoothed[k] = smoothing * smoothed[k] + (1 - smoothing) * Math.hypot(re[k], im[k]) / fftSize;
+      magnitudes[k] = normalizeDecibels(20 * Math.log10(smoothed[k]), minDecibels, maxDecibels);
+    }
+    analyzer.process({ time, binHz: sampleRate / fftSize, magnitudes });
+  }
+
+  unsubscribe();
+  return { events, features: analyzer.getFeatures() };
+};
@@ -0,0 +1,161 @@
+import * as THREE from 'three';
+import { QUALITY_TIERS } from '../constants';
+import { QualityTier, SimulationConfig } from '../types';
+
+export interface GpuCapabilities {
+  textureType: THREE.TextureDataType;
+  // False when neither float nor half-float targets are renderable and filterable; the GPU solver cannot run then
+  canRenderFloat: boolean;
+  isLowEnd: boolean;
+  initialTier: number;
+}
+
+// GPUs that are known to struggle with 1024px float dye buffers
+const LOW_END_RENDERERS = /mali|adreno \d{3}|powervr|intel|swiftshader|llvmpipe|apple gpu/i;
+
+// Render into a tiny target of the given type and ask the driver whether the framebuffer is usable
+const canRenderToType = (gl: THREE.WebGLRenderer, type: THREE.TextureDataType) => {
+  const target = new THREE.WebGLRenderTarget(4, 4, {
+    type,
+    format: THREE.RGBAFormat,
+    minFilter: THREE.LinearFilter,
+    magFilter: THREE.LinearFilter,
+    depthBuffer: false,
+    stencilBuffer: false,
+  });
+  const context = gl.getContext();
+  const previous = gl.getRenderTarget();
+  try {
+    gl.setRenderTarget(target);
+    return context.checkFramebufferStatus(context.FRAMEBUFFER) === context.FRAMEBUFFER_COMPLETE;
+  } catch (e) {
+    return false;
+  } finally {
+    gl.setRenderTarget(previous);
+    target.dispose();
+  }
+};
+
+const getRendererName = (gl: THREE.WebGLRenderer): string => {
+  const context = gl.getContext();
+  const debugInfo = context.getExtension('WEBGL_debug_renderer_info');
+  if (!debugInfo) return '';
+  return String(context.getParameter(debugInfo.UNMASKED_RENDERER_WEBGL) || '');
+};
+
+// Whether this browser can create any WebGL context at all
+export const isWebGLAvailable = () => {
+  try {
+    const canvas = document.createElement('canvas');
+    return !!(canvas.getContext('webgl2') || canvas.getContext('webgl'));
+  } catch (e) {
+    return false;
+  }
+};
+
+export const probeGpuCapabilities = (gl: THREE.WebGLRenderer): GpuCapabilities => {
+  const { extensions, capabilities } = gl;
+
+  // Float textures also need linear filtering, otherwise advection samples read back as black
+  const floatSupported = (capabilities.isWebGL2 || extensions.has('OES_texture_float'))
+    && extensions.has('OES_texture_float_linear')
+    && canRenderToType(gl, THREE.FloatType);
+  const halfFloatSupported = (capabilities.isWebGL2 || extensions.has('OES_texture_half_float'))
+    && (capabilities.isWebGL2 || extensions.has('OES_texture_half_float_linear'))
+    && canRenderToType(gl, THREE.HalfFloatType);
+
+  const isMobile = typeof navigator !== 'undefined' && /android|iphone|ipad|mobile/i.test(navigator.userAgent);
+  const isLowEnd = isMobile
+    || capabilities.maxTextureSize < 8192
+    || LOW_END_RENDERERS.test(getRendererName(gl));
+
+  const top = QUALITY_TIERS.length - 1;
+  let initialTier = isLowEnd ? Math.max(0, top - 2) : top;
+  if (!floatSupported && !halfFloatSupported) initialTier = 0;
+
+  return {
+    textureType: floatSupported ? THREE.FloatType : THREE.HalfFloatType,
+    canRenderFloat: floatSupported || halfFloatSupported,
+    isLowEnd,
+    initialTier,
+  };
+};
+
+// Scale a resolution and snap it to a multiple of 32 so texel grids stay regular
+const scaleResolution = (res: number, scale: number) => Math.max(32, Math.round((res * scale) / 32) * 32);
+
+export const applyQualityTier = (config: SimulationConfig, tier: QualityTier): SimulationConfig => ({
+  ...config,
+  simResolution: scaleResolution(config.simResolution, tier.simScale),
+  dyeResolution: scaleResolution(config.dyeResolution, tier.dyeScale),
+  pressureIterations: Math.max(1, Math.round(config.pressureIterations * tier.iterationScale)),
+});
+
+// Grid for a field whose shorter side is `resolution`, stretched along the longer side to match the canvas
+export const aspectResolution = (resolution: number, aspect: number) => {
+  const long = Math.round(resolution * Math.max(aspect, 1 / aspect));
+  return aspect >= 1 ? { width: long, height: resolution } : { width: resolution, height: long };
+};
+
+/**
+ * Watches frame times and steps the quality tier down when the target FPS is missed,
+ * then cautiously probes back up after a stretch of smooth frames. Tiers that failed
+ * a probe are retried with an exponentially growing back-off.
+ */
+export class QualityGovernor {
+  private averageFrame = 0;
+  private slowTime = 0;
+  private smoothTime = 0;
+  private cooldown = 0;
+  // Seconds of smooth frames needed before probing up into each tier
+  private probeBackoff: number[] = QUALITY_TIERS.map(() => 10);
+  // Whether the current tier was reached by probing up, rather than being the start or a step down
+  private probing = false;
+
+  constructor(public tier: number, public maxTier: number = QUALITY_TIERS.length - 1, public targetFps: number = 60) {}
+
+  // Feed one frame's delta (seconds). Returns the new tier index when it changes, otherwise null.
+  public sample(delta: number): number | null {
+    // Ignore hitches from tab switches and GC pauses
+    if (delta <= 0 || delta > 0.25) return null;
+
+    this.averageFrame = this.averageFrame === 0 ? delta : this.averageFrame * 0.95 + delta * 0.05;
+    if (this.cooldown > 0) {
+      this.cooldown -= delta;
+      return null;
+    }
+
+    const budget = 1 / this.targetFps;
+    if (this.averageFrame > budget * 1.2) {
+      this.slowTime += delta;
+      this.smoothTime = 0;
+    } else {
+      this.smoothTime += delta;
+      this.slowTime = 0;
+    }
+
+    if (this.slowTime > 1.5 && this.tier > 0) {
+      // A probe into this tier just failed: wait longer before trying it again
+      if (this.probing) this.probeBackoff[this.tier] = Math.min(this.probeBackoff[this.tier] * 2, 300);
+      this.probing = false;
+      return this.setTier(this.tier - 1);
+    }
+
+    if (this.tier < this.maxTier && this.smoothTime > this.probeBackoff[this.tier + 1]) {
+      this.probing = true;
+      return this.setTier(this.tier + 1);
+    }
+
+    return null;
+  }
+
+  private setTier(tier: number) {
+    this.tier = tier;
+    this.slowTime = 0;
+    this.smoothTime = 0;
+    // Let the new buffers warm up before judging the tier
+    this.cooldown = 1.0;
+    this.averageFrame = 0;
+    return tier;
+  }
+}